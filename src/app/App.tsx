@@ -1,33 +1,230 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { VideoPlayer } from './components/VideoPlayer';
-import { Plus, Settings, Play, Copy, Check } from 'lucide-react';
+import { AudioMixerPanel } from './components/AudioMixerPanel';
+import { DEFAULT_RECONNECT_POLICY } from './hooks/useReconnect';
+import { useSnapshots } from './context/SnapshotContext';
+import { useAudioMixer } from './context/AudioMixerContext';
+import type { SnapshotFormat } from './lib/snapshot';
+import { ServerProfileEditor } from './components/ServerProfileEditor';
+import { WallDiffDialog } from './components/WallDiffDialog';
+import { PresetManagerDialog } from './components/PresetManagerDialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from './components/ui/dropdown-menu';
+import { PROTOCOL_LABELS } from './lib/playback/engine';
+import type { StreamProtocol } from './lib/playback/types';
+import {
+  authHeaders,
+  createServerProfile,
+  profileStreamUrl,
+  type ServerProfile,
+} from './lib/serverProfile';
+import {
+  clearAppState,
+  saveAppState,
+  DEFAULT_APP_STATE,
+  MAX_STREAMS,
+  type AppState,
+  type Preset,
+  type Stream,
+  type WallColumns,
+  type WallLayout,
+} from './lib/appState';
+import { mergeWalls, type Wall, type WallMergeMode } from './lib/wall';
+import { clearWallLink, decodeWall, wallLinkParam, wallLinkUrl } from './lib/wallLink';
+import { createWallExport, readWallFile, type WallImport } from './lib/wallFile';
+import { createPreset, presetWall } from './lib/presets';
+import { copyText } from './lib/clipboard';
+import { downloadBlob, fileTimestamp } from './lib/download';
+import {
+  Plus,
+  Settings,
+  Play,
+  SlidersHorizontal,
+  Camera,
+  RotateCcw,
+  Link,
+  Check,
+  Upload,
+  Download,
+  X,
+  Bookmark,
+  ChevronDown,
+} from 'lucide-react';
 import logo from '../assets/1cb47d0da4fc1adf26a0817c4a6efe030aeece24.png';
 
-interface Stream {
-  id: string;
-  key: string;
-  isPinned?: boolean;
+// Literal class names so Tailwind picks them up
+const GRID_COLUMNS: Record<Exclude<WallColumns, 'auto'>, string> = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-1 sm:grid-cols-2',
+  3: 'grid-cols-1 sm:grid-cols-2 lg:grid-cols-3',
+  4: 'grid-cols-1 sm:grid-cols-2 lg:grid-cols-4',
+};
+
+const autoColumns = (count: number) => (count <= 1 ? 1 : count <= 4 ? 2 : count <= 9 ? 3 : 4);
+
+interface AppProps {
+  // Restored from storage before the first render
+  initialState?: AppState;
 }
 
-export default function App() {
+export default function App({ initialState = DEFAULT_APP_STATE }: AppProps) {
   const [keyInput, setKeyInput] = useState('');
-  const [host, setHost] = useState('apidecodgames.site');
-  const [port, setPort] = useState('80');
-  const [app, setApp] = useState('hls');
-  const [streams, setStreams] = useState<Stream[]>([]);
+  const [profiles, setProfiles] = useState<ServerProfile[]>(initialState.profiles);
+  const [editingProfileId, setEditingProfileId] = useState(initialState.profiles[0].id);
+  const [serverInput, setServerInput] = useState(initialState.profiles[0].id);
+  const [protocolInput, setProtocolInput] = useState<StreamProtocol>('hls');
+  const [dvrWindow, setDvrWindow] = useState(String(initialState.settings.dvrWindow));
+  const [maxRetries, setMaxRetries] = useState(String(initialState.settings.maxRetries));
+  const [streams, setStreams] = useState<Stream[]>(initialState.streams);
+  const [layout, setLayout] = useState<WallLayout>(initialState.layout);
+  const [presets, setPresets] = useState<Preset[]>(initialState.presets);
+  const [showPresets, setShowPresets] = useState(false);
+  const [editingPresetId, setEditingPresetId] = useState<string | null>(null);
+  // A wall from a link or file, waiting for the operator to replace or merge
+  const [pendingImport, setPendingImport] = useState<(WallImport & { title: string }) | null>(null);
+  const [wallError, setWallError] = useState('');
+  const [linkCopied, setLinkCopied] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [showConfig, setShowConfig] = useState(false);
-  const [copied, setCopied] = useState(false);
-
-  const buildStreamUrl = (key: string) => {
-    const protocol = 'https';
-    const portStr = port ? `:${port}` : '';
-    console.log('Building stream URL with:', `${protocol}://${host}/${app}/${key}.m3u8`);
-    // return `${protocol}://${host}${portStr}/${app}/${key}.m3u8`;
-    return `${protocol}://${host}/${app}/${key}.m3u8`;
+  const [showMixer, setShowMixer] = useState(false);
+  const [isSnapshotting, setIsSnapshotting] = useState(false);
+  const snapshots = useSnapshots();
+  const mixer = useAudioMixer();
+
+  useEffect(() => {
+    const streamKeys = new Set(streams.map(s => s.key));
+    saveAppState({
+      streams,
+      profiles,
+      layout,
+      presets,
+      settings: { dvrWindow: Number(dvrWindow), maxRetries: Number(maxRetries) },
+      snapshot: snapshots.options,
+      mixer: {
+        // Drop channels of tiles that are gone
+        channels: Object.fromEntries(Object.entries(mixer.channels).filter(([key]) => streamKeys.has(key))),
+        exclusive: mixer.exclusive,
+        sinkId: mixer.sinkId,
+      },
+    });
+  }, [streams, profiles, layout, presets, dvrWindow, maxRetries, snapshots.options, mixer.channels, mixer.exclusive, mixer.sinkId]);
+
+  // Shared links can arrive on load or be pasted into an open tab
+  useEffect(() => {
+    const openWallLink = () => {
+      const encoded = wallLinkParam();
+      if (!encoded) return;
+      clearWallLink();
+      const wall = decodeWall(encoded);
+      if (wall) {
+        setPendingImport({ title: 'Open shared wall?', wall, warnings: [] });
+      } else {
+        setWallError('This wall link is invalid or incomplete');
+      }
+    };
+    openWallLink();
+    window.addEventListener('hashchange', openWallLink);
+    return () => window.removeEventListener('hashchange', openWallLink);
+  }, []);
+
+  // Streams whose profile was deleted fall back to the first one
+  const profileFor = (serverId: string) => profiles.find(p => p.id === serverId) ?? profiles[0];
+  const editingProfile = profileFor(editingProfileId);
+
+  // Worked out once per profile change rather than per tile on every render
+  const headersByServer = useMemo(
+    () => new Map(profiles.map(profile => [profile.id, authHeaders(profile.auth)])),
+    [profiles],
+  );
+
+  const streamUrlFor = (stream: Stream) =>
+    profileStreamUrl(profileFor(stream.serverId), stream.protocol ?? 'hls', stream.key);
+
+  const currentWall = (): Wall => ({
+    profiles,
+    streams: streams.map(s => ({ ...s, serverId: profileFor(s.serverId).id })),
+    layout,
+    channels: mixer.channels,
+  });
+
+  const applyWall = (incoming: Wall, mode: WallMergeMode) => {
+    const { wall, dropped } = mergeWalls(currentWall(), incoming, mode);
+    setProfiles(wall.profiles);
+    setStreams(wall.streams);
+    setLayout(wall.layout);
+    mixer.restoreChannels(wall.channels);
+    setWallError(dropped.length > 0 ? `The wall is full; not added: ${dropped.join(', ')}` : '');
+  };
+
+  const handleSavePreset = () => {
+    const preset = createPreset(`Preset ${presets.length + 1}`, currentWall().streams, layout);
+    setPresets([...presets, preset]);
+    // Straight into the editor so it gets a real name
+    setEditingPresetId(preset.id);
+    setShowPresets(true);
+  };
+
+  const handleManagePresets = (presetId: string | null) => {
+    setEditingPresetId(presetId);
+    setShowPresets(true);
+  };
+
+  const handleCopyWallLink = async () => {
+    if (await copyText(wallLinkUrl(currentWall()))) {
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    }
+  };
+
+  const handleExportWall = () => {
+    downloadBlob(createWallExport(currentWall()), `wall_${fileTimestamp(new Date())}.json`);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again after fixing it
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = await readWallFile(file, profiles);
+      setWallError('');
+      setPendingImport({ title: `Import ${file.name}?`, ...imported });
+    } catch (err) {
+      setWallError(`Couldn't import ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleAddProfile = () => {
+    const profile = createServerProfile(`Server ${profiles.length + 1}`);
+    setProfiles([...profiles, profile]);
+    setEditingProfileId(profile.id);
+  };
+
+  const handleUpdateProfile = (profile: ServerProfile) => {
+    setProfiles(profiles.map(p => (p.id === profile.id ? profile : p)));
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    const remaining = profiles.filter(p => p.id !== id);
+    setProfiles(remaining);
+    setEditingProfileId(remaining[0].id);
+    if (serverInput === id) {
+      setServerInput(remaining[0].id);
+    }
   };
 
   const handleAddKey = () => {
-    if (keyInput.trim() && streams.length < 10) {
+    if (keyInput.trim() && streams.length < MAX_STREAMS) {
       // Split by comma and process each key
       const keys = keyInput.split(',')
         .map(k => k.trim())
@@ -45,13 +242,15 @@ export default function App() {
       }
       
       // Calculate how many streams we can add
-      const availableSlots = 10 - streams.length;
+      const availableSlots = MAX_STREAMS - streams.length;
       const keysToAdd = uniqueKeys.slice(0, availableSlots);
       
       // Create new streams for each key
       const newStreams: Stream[] = keysToAdd.map((key, index) => ({
         id: `${Date.now()}_${index}`,
-        key: key
+        key: key,
+        protocol: protocolInput,
+        serverId: profileFor(serverInput).id,
       }));
       
       setStreams([...streams, ...newStreams]);
@@ -59,23 +258,6 @@ export default function App() {
     }
   };
 
-  const handleLoadStreams = () => {
-    // Load sample streams with different keys
-    const sampleStreams: Stream[] = [
-      { id: '1', key: 'drone1' },
-      { id: '2', key: 'drone2' },
-      { id: '3', key: 'drone3' },
-      { id: '4', key: 'drone4' },
-      { id: '5', key: 'test1' },
-      { id: '6', key: 'test2' },
-      { id: '7', key: 'test3' },
-      { id: '8', key: 'test4' },
-      { id: '9', key: 'stream1' },
-      { id: '10', key: 'stream2' },
-    ];
-    setStreams(sampleStreams);
-  };
-
   const handleRemoveStream = (id: string) => {
     setStreams(streams.filter(s => s.id !== id));
   };
@@ -86,53 +268,30 @@ export default function App() {
     ));
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') {
-      handleAddKey();
+  const handleResetToDefaults = () => {
+    if (!window.confirm('Remove every stream and server profile and restore all settings to their defaults?')) {
+      return;
     }
+    clearAppState();
+    // Reload so every provider and tile starts from scratch too
+    window.location.reload();
   };
 
-  const handleCopyUrl = async () => {
-    const urlFormat = `http://${host}:${port}/${app}/{key}.m3u8`;
+  const handleSnapshotAll = async () => {
+    setIsSnapshotting(true);
     try {
-      // Try modern Clipboard API first
-      if (navigator.clipboard && navigator.clipboard.writeText) {
-        await navigator.clipboard.writeText(urlFormat);
-        setCopied(true);
-        setTimeout(() => setCopied(false), 2000);
-      } else {
-        // Fallback for browsers/contexts where Clipboard API is blocked
-        copyToClipboardFallback(urlFormat);
-      }
+      await snapshots.snapshotAll();
     } catch (err) {
-      // If Clipboard API fails, use fallback method
-      copyToClipboardFallback(urlFormat);
+      console.error('Wall snapshot failed:', err);
+    } finally {
+      setIsSnapshotting(false);
     }
   };
 
-  const copyToClipboardFallback = (text: string) => {
-    // Create temporary textarea
-    const textarea = document.createElement('textarea');
-    textarea.value = text;
-    textarea.style.position = 'fixed';
-    textarea.style.left = '-999999px';
-    textarea.style.top = '-999999px';
-    document.body.appendChild(textarea);
-    
-    // Select and copy
-    textarea.focus();
-    textarea.select();
-    
-    try {
-      document.execCommand('copy');
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
-    } catch (err) {
-      console.error('Fallback copy failed:', err);
+  const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      handleAddKey();
     }
-    
-    // Clean up
-    document.body.removeChild(textarea);
   };
 
   return (
@@ -144,73 +303,148 @@ export default function App() {
           <div className="flex items-center gap-3">
             <img src={logo} alt="Decod Live Logo" className="w-[32px] h-[32px]" />
           </div>
-          <button
-            onClick={() => setShowConfig(!showConfig)}
-            className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-200/60 rounded-md hover:bg-slate-50 transition-all"
-          >
-            <Settings size={14} />
-            <span className="text-xs font-medium">Settings</span>
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowMixer(!showMixer)}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-200/60 rounded-md hover:bg-slate-50 transition-all"
+            >
+              <SlidersHorizontal size={14} />
+              <span className="text-xs font-medium">Audio</span>
+            </button>
+            <button
+              onClick={() => setShowConfig(!showConfig)}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-200/60 rounded-md hover:bg-slate-50 transition-all"
+            >
+              <Settings size={14} />
+              <span className="text-xs font-medium">Settings</span>
+            </button>
+            <button
+              onClick={handleCopyWallLink}
+              disabled={streams.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-200/60 rounded-md hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              title="Copy a link that opens this wall (server credentials are left out)"
+            >
+              {linkCopied ? <Check size={14} /> : <Link size={14} />}
+              <span className="text-xs font-medium">{linkCopied ? 'Copied!' : 'Copy wall link'}</span>
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-200/60 rounded-md hover:bg-slate-50 transition-all"
+              title="Import a wall export (.json) or a playlist of stream URLs (.m3u, .m3u8)"
+            >
+              <Upload size={14} />
+              <span className="text-xs font-medium">Import</span>
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,.m3u,.m3u8,application/json,audio/x-mpegurl,application/vnd.apple.mpegurl"
+              onChange={handleImportFile}
+              className="hidden"
+            />
+            <button
+              onClick={handleExportWall}
+              disabled={streams.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-200/60 rounded-md hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              title="Download the wall as JSON (server credentials are left out)"
+            >
+              <Download size={14} />
+              <span className="text-xs font-medium">Export</span>
+            </button>
+          </div>
         </div>
 
         {/* Configuration Panel */}
         {showConfig && (
           <div className="bg-white/80 backdrop-blur-xl rounded-lg border border-slate-200/60 p-6 mb-6">
             <h3 className="text-sm font-semibold text-slate-700 mb-4">Stream Server Configuration</h3>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {/* Server Profiles */}
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              {profiles.map(profile => (
+                <button
+                  key={profile.id}
+                  onClick={() => setEditingProfileId(profile.id)}
+                  className={`px-3 py-1.5 rounded-md border text-xs font-medium transition-all ${
+                    profile.id === editingProfile.id
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'bg-white border-slate-200/60 text-slate-700 hover:bg-slate-50'
+                  }`}
+                >
+                  {profile.name || 'Untitled'}
+                  <span className="ml-1.5 opacity-70">({streams.filter(s => profileFor(s.serverId).id === profile.id).length})</span>
+                </button>
+              ))}
+              <button
+                onClick={handleAddProfile}
+                className="flex items-center gap-1 px-3 py-1.5 bg-white border border-dashed border-slate-300 rounded-md hover:bg-slate-50 text-xs font-medium text-slate-600 transition-all"
+              >
+                <Plus size={13} />
+                Add Server
+              </button>
+            </div>
+            <ServerProfileEditor
+              profile={editingProfile}
+              onChange={handleUpdateProfile}
+              onDelete={profiles.length > 1 ? () => handleDeleteProfile(editingProfile.id) : undefined}
+              previewKey={streams.find(s => profileFor(s.serverId).id === editingProfile.id)?.key ?? 'drone1'}
+            />
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
               <div>
-                <label className="block text-xs font-medium text-slate-600 mb-1.5">Host</label>
+                <label className="block text-xs font-medium text-slate-600 mb-1.5">DVR Window (seconds)</label>
                 <input
-                  type="text"
-                  value={host}
-                  onChange={(e) => setHost(e.target.value)}
-                  placeholder="13.232.150.48"
+                  type="number"
+                  min={30}
+                  value={dvrWindow}
+                  onChange={(e) => setDvrWindow(e.target.value)}
+                  placeholder="300"
                   className="w-full px-3 py-2 bg-white border border-slate-200/60 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
                 />
               </div>
               <div>
-                <label className="block text-xs font-medium text-slate-600 mb-1.5">Port</label>
+                <label className="block text-xs font-medium text-slate-600 mb-1.5">Max Reconnect Attempts</label>
                 <input
-                  type="text"
-                  value={port}
-                  onChange={(e) => setPort(e.target.value)}
-                  placeholder="80"
+                  type="number"
+                  min={1}
+                  value={maxRetries}
+                  onChange={(e) => setMaxRetries(e.target.value)}
+                  placeholder={String(DEFAULT_RECONNECT_POLICY.maxAttempts)}
                   className="w-full px-3 py-2 bg-white border border-slate-200/60 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
                 />
               </div>
+            </div>
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4 items-end">
               <div>
-                <label className="block text-xs font-medium text-slate-600 mb-1.5">App Path</label>
+                <label className="block text-xs font-medium text-slate-600 mb-1.5">Snapshot Format</label>
+                <select
+                  value={snapshots.options.format}
+                  onChange={(e) => snapshots.setOptions({ ...snapshots.options, format: e.target.value as SnapshotFormat })}
+                  className="w-full px-3 py-2 bg-white border border-slate-200/60 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                >
+                  <option value="png">PNG</option>
+                  <option value="jpeg">JPEG</option>
+                </select>
+              </div>
+              <label className="flex items-center gap-2 py-2 text-xs font-medium text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={snapshots.options.burnIn}
+                  onChange={(e) => snapshots.setOptions({ ...snapshots.options, burnIn: e.target.checked })}
+                  className="accent-blue-600"
+                />
+                Burn in key, time &amp; note
+              </label>
+              <div className="lg:col-span-3">
+                <label className="block text-xs font-medium text-slate-600 mb-1.5">Operator Note</label>
                 <input
                   type="text"
-                  value={app}
-                  onChange={(e) => setApp(e.target.value)}
-                  placeholder="hls"
-                  className="w-full px-3 py-2 bg-white border border-slate-200/60 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  value={snapshots.options.note}
+                  onChange={(e) => snapshots.setOptions({ ...snapshots.options, note: e.target.value })}
+                  disabled={!snapshots.options.burnIn}
+                  placeholder="Shown in the snapshot footer"
+                  className="w-full px-3 py-2 bg-white border border-slate-200/60 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm disabled:bg-slate-50 disabled:text-slate-400"
                 />
               </div>
             </div>
-            <div className="mt-4 p-3 bg-blue-50 rounded-md border border-blue-100/50 flex items-center justify-between">
-              <p className="text-xs text-blue-700">
-                <span className="font-semibold">Stream URL format:</span> http://{host}:{port}/{app}/&#123;key&#125;.m3u8
-              </p>
-              <button
-                onClick={handleCopyUrl}
-                className="flex items-center gap-1.5 px-2.5 py-1 bg-blue-600 hover:bg-blue-700 rounded-md text-white text-xs font-medium transition-all ml-3 whitespace-nowrap"
-                title="Copy URL format"
-              >
-                {copied ? (
-                  <>
-                    <Check size={13} />
-                    <span>Copied!</span>
-                  </>
-                ) : (
-                  <>
-                    <Copy size={13} />
-                    <span>Copy</span>
-                  </>
-                )}
-              </button>
-            </div>
             <div className="mt-3 p-3 bg-amber-50 rounded-md border border-amber-100/50">
               <p className="text-xs text-amber-800 font-medium mb-1">⚠️ Troubleshooting CORS Errors:</p>
               <p className="text-xs text-amber-700">
@@ -218,9 +452,24 @@ export default function App() {
                 Add <code className="bg-amber-100 px-1 rounded">Access-Control-Allow-Origin: *</code> to your server config.
               </p>
             </div>
+            <div className="mt-4 pt-4 border-t border-slate-200/60 flex items-center justify-between">
+              <p className="text-xs text-slate-500">
+                The wall and these settings, server credentials included, are saved in this browser.
+              </p>
+              <button
+                onClick={handleResetToDefaults}
+                className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-red-200 text-red-600 rounded-md hover:bg-red-50 text-xs font-medium transition-all"
+              >
+                <RotateCcw size={14} />
+                Reset to defaults
+              </button>
+            </div>
           </div>
         )}
 
+        {/* Audio Mixer Panel */}
+        {showMixer && <AudioMixerPanel streamKeys={streams.map(s => s.key)} />}
+
         {/* Controls */}
         <div className="bg-white/80 backdrop-blur-xl rounded-lg border border-slate-200/60 p-6">
           <div className="flex items-center gap-3 mb-4">
@@ -235,35 +484,128 @@ export default function App() {
               placeholder="Enter stream key (comma-separated for multiple)..."
               className="flex-1 px-3 py-1.5 bg-white border border-slate-200/60 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm placeholder:text-slate-400 transition-all"
             />
+            <select
+              value={protocolInput}
+              onChange={(e) => setProtocolInput(e.target.value as StreamProtocol)}
+              className="px-2 py-1.5 bg-white border border-slate-200/60 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-xs"
+              title="Playback protocol for new streams"
+            >
+              {(Object.keys(PROTOCOL_LABELS) as StreamProtocol[]).map(protocol => (
+                <option key={protocol} value={protocol}>{PROTOCOL_LABELS[protocol]}</option>
+              ))}
+            </select>
+            {profiles.length > 1 && (
+              <select
+                value={profileFor(serverInput).id}
+                onChange={(e) => setServerInput(e.target.value)}
+                className="px-2 py-1.5 bg-white border border-slate-200/60 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-xs max-w-[10rem]"
+                title="Server for new streams"
+              >
+                {profiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name || 'Untitled'}</option>
+                ))}
+              </select>
+            )}
             <button
               onClick={handleAddKey}
-              disabled={!keyInput.trim() || streams.length >= 10}
+              disabled={!keyInput.trim() || streams.length >= MAX_STREAMS}
               className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 disabled:cursor-not-allowed rounded-md text-white text-xs font-medium whitespace-nowrap transition-all"
             >
               <Plus size={14} />
               Add Stream
             </button>
-            <button
-              onClick={handleLoadStreams}
-              className="px-4 py-1.5 bg-emerald-600 hover:bg-emerald-700 rounded-md text-white text-xs font-medium whitespace-nowrap transition-all"
-            >
-              Load All Streams
-            </button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button className="flex items-center gap-1.5 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 rounded-md text-white text-xs font-medium whitespace-nowrap transition-all">
+                  <Bookmark size={14} />
+                  Presets
+                  <ChevronDown size={13} />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-60">
+                {presets.length === 0 && (
+                  <DropdownMenuLabel className="text-xs font-normal text-slate-400">No presets yet</DropdownMenuLabel>
+                )}
+                {presets.map(preset => (
+                  <DropdownMenuSub key={preset.id}>
+                    <DropdownMenuSubTrigger className="text-xs">
+                      <span className="flex-1 truncate">{preset.name}</span>
+                      <span className="text-slate-400">{preset.streams.length}</span>
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      <DropdownMenuItem
+                        onSelect={() => applyWall(presetWall(preset, profiles), 'replace')}
+                        className="text-xs"
+                      >
+                        Load (replace wall)
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onSelect={() => applyWall(presetWall(preset, profiles), 'merge')}
+                        className="text-xs"
+                      >
+                        Merge into wall
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onSelect={() => handleManagePresets(preset.id)} className="text-xs">
+                        Edit…
+                      </DropdownMenuItem>
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={handleSavePreset} disabled={streams.length === 0} className="text-xs">
+                  Save current wall as preset…
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleManagePresets(null)} className="text-xs">
+                  Manage presets…
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
 
+          {wallError && (
+            <div className="flex items-center gap-2 mb-4 px-3 py-2 bg-red-50 border border-red-100 rounded-md text-xs text-red-700">
+              <span className="flex-1">{wallError}</span>
+              <button onClick={() => setWallError('')} className="p-0.5 hover:bg-red-100 rounded" title="Dismiss">
+                <X size={13} />
+              </button>
+            </div>
+          )}
+
           {/* Stream Counter */}
           <div className="flex items-center gap-3 pt-4 border-t border-slate-200/60">
             <div className="flex items-center gap-2">
               <div className="h-1.5 w-1.5 rounded-full bg-blue-600"></div>
               <span className="text-sm font-medium text-slate-700">
-                Active Streams: <span className="text-blue-600">{streams.length}</span>/10
+                Active Streams: <span className="text-blue-600">{streams.length}</span>/{MAX_STREAMS}
               </span>
             </div>
-            {streams.length >= 10 && (
+            {streams.length >= MAX_STREAMS && (
               <span className="text-xs text-amber-700 bg-amber-50 px-3 py-1 rounded-full font-medium border border-amber-100/50">
                 Maximum capacity reached
               </span>
             )}
+            <select
+              value={layout.columns}
+              onChange={(e) => setLayout({ columns: e.target.value === 'auto' ? 'auto' : Number(e.target.value) as WallColumns })}
+              className="ml-auto px-2 py-1.5 bg-white border border-slate-200/60 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-xs"
+              title="Grid columns on wide screens"
+            >
+              <option value="auto">Auto layout</option>
+              <option value="1">1 column</option>
+              <option value="2">2 columns</option>
+              <option value="3">3 columns</option>
+              <option value="4">4 columns</option>
+            </select>
+            <button
+              onClick={handleSnapshotAll}
+              disabled={streams.length === 0 || isSnapshotting}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-200/60 rounded-md hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed text-xs font-medium transition-all"
+              title="Download a zip with a snapshot of every playing tile"
+            >
+              <Camera size={14} />
+              {isSnapshotting ? 'Saving…' : 'Snapshot All'}
+            </button>
           </div>
         </div>
       </div>
@@ -276,10 +618,10 @@ export default function App() {
               <Play size={32} className="text-blue-600" />
             </div>
             <p className="text-xl font-semibold text-slate-700 mb-2">No active streams</p>
-            <p className="text-sm text-slate-500">Enter a key and click "Add Stream" or click "Load All Streams" to view 10 drone feeds</p>
+            <p className="text-sm text-slate-500">Enter a key and click "Add Stream", or load a wall from "Presets"</p>
           </div>
         ) : (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div className={`grid ${GRID_COLUMNS[layout.columns === 'auto' ? autoColumns(streams.length) : layout.columns]} gap-4`}>
             {streams
               .sort((a, b) => {
                 // Pinned streams first
@@ -290,17 +632,48 @@ export default function App() {
               .map((stream) => (
                 <VideoPlayer
                   key={stream.id}
+                  streamId={stream.id}
                   streamKey={stream.key}
-                  streamUrl={buildStreamUrl(stream.key)}
+                  streamUrl={streamUrlFor(stream)}
+                  protocol={stream.protocol}
+                  requestHeaders={headersByServer.get(profileFor(stream.serverId).id)}
+                  label={stream.label}
+                  serverName={profiles.length > 1 ? profileFor(stream.serverId).name : undefined}
                   onRemove={() => handleRemoveStream(stream.id)}
                   onTogglePin={() => handleTogglePin(stream.id)}
                   isPinned={stream.isPinned}
+                  dvrWindow={Math.max(30, Number(dvrWindow) || 300)}
+                  reconnectPolicy={{
+                    ...DEFAULT_RECONNECT_POLICY,
+                    maxAttempts: Math.max(1, Number(maxRetries) || DEFAULT_RECONNECT_POLICY.maxAttempts),
+                  }}
                 />
               ))}
           </div>
         )}
       </div>
 
+      <WallDiffDialog
+        title={pendingImport?.title ?? ''}
+        incoming={pendingImport?.wall ?? null}
+        current={currentWall()}
+        warnings={pendingImport?.warnings}
+        onApply={(mode) => {
+          if (pendingImport) applyWall(pendingImport.wall, mode);
+          setPendingImport(null);
+        }}
+        onCancel={() => setPendingImport(null)}
+      />
+
+      <PresetManagerDialog
+        open={showPresets}
+        presets={presets}
+        profiles={profiles}
+        selectedId={editingPresetId}
+        onChange={setPresets}
+        onClose={() => setShowPresets(false)}
+      />
+
       {/* Footer Info */}
       <div className="max-w-[1920px] mx-auto mt-8 text-center text-xs text-slate-400">
         <p>Decod Live Streaming App - Premium Drone Feed Platform</p>
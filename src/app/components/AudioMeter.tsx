@@ -0,0 +1,112 @@
+import { useState, useEffect, useRef, type RefObject } from 'react';
+import { getAudioContext } from '../lib/audioContext';
+import { getAudioTap, onMeterFrame, type AudioTap } from '../lib/audioTap';
+import { isMediaReadable } from '../lib/mediaCapture';
+
+interface AudioMeterProps {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  isActive: boolean;
+}
+
+const FLOOR_DB = -60;
+const PEAK_HOLD_MS = 1000;
+const PEAK_DECAY_PER_FRAME = 0.01;
+const NO_AUDIO_MS = 3000;
+
+const toLevel = (amplitude: number) => {
+  if (amplitude <= 0) return 0;
+  const db = 20 * Math.log10(amplitude);
+  return Math.min(1, Math.max(0, (db - FLOOR_DB) / -FLOOR_DB));
+};
+
+export function AudioMeter({ videoRef, isActive }: AudioMeterProps) {
+  const fillRef = useRef<HTMLDivElement>(null);
+  const peakRef = useRef<HTMLDivElement>(null);
+  const [hasAudio, setHasAudio] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !isActive || typeof AudioContext === 'undefined') {
+      setHasAudio(null);
+      return;
+    }
+
+    const samples = new Float32Array(1024);
+    let tap: AudioTap | null = null;
+    let tappedAt = 0;
+    let heard = false;
+    let shown: boolean | null = null;
+    let peak = 0;
+    let peakAt = 0;
+
+    const show = (value: boolean | null) => {
+      if (value !== shown) {
+        shown = value;
+        setHasAudio(value);
+      }
+    };
+
+    const stop = onMeterFrame((now) => {
+      if (!tap) {
+        // Taking over the element's output while autoplay still holds the
+        // context suspended would leave the tile silent, so wait for it. Media
+        // the page can't read would feed the graph silence, sound included.
+        if (getAudioContext().state !== 'running' || !isMediaReadable(video)) return;
+        tap = getAudioTap(video);
+        tappedAt = now;
+      }
+
+      tap.analyser.getFloatTimeDomainData(samples);
+      let sumSquares = 0;
+      let max = 0;
+      for (let i = 0; i < samples.length; i++) {
+        const v = Math.abs(samples[i]);
+        sumSquares += v * v;
+        if (v > max) max = v;
+      }
+      // A source node can't tell whether the stream has an audio track, so
+      // give it a moment to produce any signal before calling it silent
+      if (max > 0) heard = true;
+      show(heard ? true : now - tappedAt > NO_AUDIO_MS ? false : null);
+      if (!heard) return;
+
+      const level = toLevel(Math.sqrt(sumSquares / samples.length));
+      const instantPeak = toLevel(max);
+      if (instantPeak >= peak) {
+        peak = instantPeak;
+        peakAt = now;
+      } else if (now - peakAt > PEAK_HOLD_MS) {
+        peak = Math.max(level, peak - PEAK_DECAY_PER_FRAME);
+      }
+
+      if (fillRef.current) {
+        fillRef.current.style.width = `${level * 100}%`;
+        fillRef.current.style.backgroundColor = level > 0.9 ? '#ef4444' : '';
+      }
+      if (peakRef.current) peakRef.current.style.left = `${peak * 100}%`;
+    });
+
+    return stop;
+  }, [isActive]);
+
+  if (hasAudio === null) return null;
+
+  if (!hasAudio) {
+    return (
+      <span className="text-[10px] font-medium text-slate-400 whitespace-nowrap" title="No audio signal on this stream">
+        No audio
+      </span>
+    );
+  }
+
+  return (
+    <div className="relative w-10 h-1.5 rounded-full bg-slate-200 overflow-hidden" title="Audio level">
+      <div
+        ref={fillRef}
+        className="absolute inset-y-0 left-0 bg-emerald-500"
+        style={{ width: '0%' }}
+      ></div>
+      <div ref={peakRef} className="absolute inset-y-0 w-0.5 bg-slate-700" style={{ left: '0%' }}></div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState, useEffect } from 'react';
+import { VolumeOff, Volume2 } from 'lucide-react';
+import { useAudioMixer, supportsSinkSelection } from '../context/AudioMixerContext';
+import { Slider } from './ui/slider';
+import { Switch } from './ui/switch';
+
+interface AudioMixerPanelProps {
+  streamKeys: string[];
+}
+
+export function AudioMixerPanel({ streamKeys }: AudioMixerPanelProps) {
+  const mixer = useAudioMixer();
+  const [outputs, setOutputs] = useState<MediaDeviceInfo[]>([]);
+  const canSelectOutput = supportsSinkSelection() && !!navigator.mediaDevices?.enumerateDevices;
+
+  useEffect(() => {
+    if (!canSelectOutput) return;
+
+    const loadOutputs = () => {
+      navigator.mediaDevices.enumerateDevices()
+        .then(devices => setOutputs(devices.filter(d => d.kind === 'audiooutput')))
+        .catch(err => console.warn('Failed to list audio outputs:', err));
+    };
+    loadOutputs();
+    navigator.mediaDevices.addEventListener('devicechange', loadOutputs);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', loadOutputs);
+  }, [canSelectOutput]);
+
+  return (
+    <div className="bg-white/80 backdrop-blur-xl rounded-lg border border-slate-200/60 p-6 mb-6">
+      <div className="flex items-center justify-between mb-4 gap-4 flex-wrap">
+        <h3 className="text-sm font-semibold text-slate-700">Audio Mixer</h3>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-xs font-medium text-slate-600">
+            <Switch checked={mixer.exclusive} onCheckedChange={mixer.setExclusive} />
+            Exclusive audio
+          </label>
+          {canSelectOutput && (
+            <select
+              value={mixer.sinkId}
+              onChange={(e) => mixer.setSinkId(e.target.value)}
+              className="px-2 py-1 bg-white border border-slate-200/60 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-xs"
+              title="Output device"
+            >
+              <option value="">Default output</option>
+              {outputs
+                .filter(d => d.deviceId && d.deviceId !== 'default')
+                .map((device, index) => (
+                  <option key={device.deviceId} value={device.deviceId}>
+                    {device.label || `Output ${index + 1}`}
+                  </option>
+                ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      {streamKeys.length === 0 ? (
+        <p className="text-xs text-slate-500">Add streams to mix their audio.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-3">
+          {streamKeys.map((key) => {
+            const channel = mixer.channel(key);
+            const audible = mixer.isAudible(key);
+            const isSolo = mixer.soloKey === key;
+            return (
+              <div key={key} className="flex items-center gap-2.5">
+                <span className="w-20 truncate text-xs font-mono text-slate-600" title={key}>{key}</span>
+                <button
+                  onClick={() => mixer.setMuted(key, !channel.muted)}
+                  className="p-1 hover:bg-slate-100 rounded-md transition-all cursor-pointer"
+                  title={channel.muted ? 'Unmute' : 'Mute'}
+                >
+                  {audible ? <Volume2 size={14} className="text-blue-600" /> : <VolumeOff size={14} className="text-slate-500" />}
+                </button>
+                <button
+                  onClick={() => mixer.toggleSolo(key)}
+                  className={`w-5 h-5 rounded-md text-[10px] font-bold transition-all cursor-pointer ${
+                    isSolo ? 'bg-amber-500 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+                  }`}
+                  title={isSolo ? 'Unsolo' : 'Solo'}
+                >
+                  S
+                </button>
+                <Slider
+                  value={[Math.round(channel.volume * 100)]}
+                  max={100}
+                  step={1}
+                  onValueChange={([value]) => mixer.setVolume(key, value / 100)}
+                  className="flex-1"
+                />
+                <span className="w-8 text-right text-[10px] text-slate-500 tabular-nums">
+                  {Math.round(channel.volume * 100)}%
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
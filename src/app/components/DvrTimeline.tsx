@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import type { LiveTimeline } from '../hooks/useLiveTimeline';
+
+interface DvrTimelineProps {
+  timeline: LiveTimeline;
+  onSeek: (time: number) => void;
+  onGoLive: () => void;
+}
+
+const formatOffset = (seconds: number) => {
+  const total = Math.round(seconds);
+  const mins = Math.floor(total / 60);
+  const secs = total % 60;
+  return mins > 0 ? `-${mins}:${secs.toString().padStart(2, '0')}` : `-${secs}s`;
+};
+
+export function DvrTimeline({ timeline, onSeek, onGoLive }: DvrTimelineProps) {
+  // Hold the thumb where the user dropped it until the seek lands
+  const [scrubValue, setScrubValue] = useState<number | null>(null);
+
+  const { start, end, isAtLive, behindLive } = timeline;
+  const range = Math.max(end - start, 0.001);
+  const value = scrubValue ?? timeline.position;
+  const progress = Math.min(100, Math.max(0, ((value - start) / range) * 100));
+
+  const commitSeek = () => {
+    if (scrubValue !== null) {
+      onSeek(scrubValue);
+      setScrubValue(null);
+    }
+  };
+
+  return (
+    <div className="bg-slate-50/50 px-3.5 pt-2 flex items-center gap-2.5 border-t border-slate-200/60">
+      <div className="relative flex-1 h-3 flex items-center">
+        <div className="absolute inset-x-0 h-1 rounded-full bg-slate-200"></div>
+        <div
+          className={`absolute left-0 h-1 rounded-full ${isAtLive ? 'bg-red-500' : 'bg-blue-600'}`}
+          style={{ width: `${progress}%` }}
+        ></div>
+        <input
+          type="range"
+          min={start}
+          max={end}
+          step={0.1}
+          value={value}
+          onChange={(e) => setScrubValue(Number(e.target.value))}
+          onPointerUp={commitSeek}
+          onKeyUp={commitSeek}
+          onBlur={commitSeek}
+          className="absolute inset-0 w-full opacity-0 cursor-pointer"
+          title="Seek"
+        />
+        <div
+          className="absolute w-2.5 h-2.5 -ml-[5px] rounded-full bg-white border border-slate-300 shadow-sm pointer-events-none"
+          style={{ left: `${progress}%` }}
+        ></div>
+      </div>
+      {!isAtLive && (
+        <span className="text-xs font-medium text-slate-500 tabular-nums" title="Behind live edge">
+          {formatOffset(behindLive)}
+        </span>
+      )}
+      <button
+        onClick={onGoLive}
+        disabled={isAtLive}
+        className={`flex items-center gap-1 px-1.5 py-0.5 rounded-md text-[10px] font-semibold transition-all ${
+          isAtLive
+            ? 'text-red-600 cursor-default'
+            : 'text-slate-600 bg-slate-100 hover:bg-slate-200 cursor-pointer'
+        }`}
+        title={isAtLive ? 'At live edge' : 'Jump to live'}
+      >
+        <div className={`w-1.5 h-1.5 rounded-full ${isAtLive ? 'bg-red-600' : 'bg-slate-400'}`}></div>
+        {isAtLive ? 'LIVE' : 'GO LIVE'}
+      </button>
+    </div>
+  );
+}
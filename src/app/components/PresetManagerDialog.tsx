@@ -0,0 +1,212 @@
+import { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { MAX_STREAMS, type Preset, type WallColumns } from '../lib/appState';
+import { parsePresetKeys } from '../lib/presets';
+import type { ServerProfile } from '../lib/serverProfile';
+
+interface PresetManagerDialogProps {
+  open: boolean;
+  presets: Preset[];
+  profiles: ServerProfile[];
+  // Preset to select when the dialog opens
+  selectedId: string | null;
+  onChange: (presets: Preset[]) => void;
+  onClose: () => void;
+}
+
+const MIXED_SERVERS = 'mixed';
+
+const inputClass =
+  'w-full px-3 py-2 bg-white border border-slate-200/60 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+export function PresetManagerDialog({ open, presets, profiles, selectedId, onChange, onClose }: PresetManagerDialogProps) {
+  const [currentId, setCurrentId] = useState<string | null>(selectedId);
+  const [keysText, setKeysText] = useState('');
+
+  const index = presets.findIndex(p => p.id === currentId);
+  const preset = index >= 0 ? presets[index] : null;
+
+  useEffect(() => {
+    if (open) setCurrentId(selectedId ?? presets[0]?.id ?? null);
+  }, [open, selectedId]);
+
+  // Keys are edited as free text and only parsed on blur, so typing a comma
+  // or newline isn't swallowed
+  useEffect(() => {
+    setKeysText(preset ? preset.streams.map(s => s.key).join('\n') : '');
+  }, [preset?.id]);
+
+  // A deleted server shows as the first profile, which is what loading falls back to
+  const resolveServer = (serverId: string) => (profiles.some(p => p.id === serverId) ? serverId : profiles[0].id);
+  const serverIds = [...new Set(preset?.streams.map(s => resolveServer(s.serverId)) ?? [])];
+  const serverValue = serverIds.length > 1 ? MIXED_SERVERS : serverIds[0] ?? profiles[0].id;
+
+  const update = (changes: Partial<Preset>) => {
+    if (!preset) return;
+    onChange(presets.map(p => (p.id === preset.id ? { ...p, ...changes } : p)));
+  };
+
+  const commitKeys = () => {
+    if (!preset) return;
+    const fallbackServer = serverValue === MIXED_SERVERS ? profiles[0].id : serverValue;
+    const streams = parsePresetKeys(keysText)
+      .slice(0, MAX_STREAMS)
+      .map(key => preset.streams.find(s => s.key === key) ?? { key, serverId: fallbackServer });
+    update({ streams });
+    setKeysText(streams.map(s => s.key).join('\n'));
+  };
+
+  const move = (offset: number) => {
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= presets.length) return;
+    const next = [...presets];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const remove = () => {
+    if (!preset) return;
+    const next = presets.filter(p => p.id !== preset.id);
+    onChange(next);
+    setCurrentId(next[Math.min(index, next.length - 1)]?.id ?? null);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (isOpen) return;
+        // Closing with Escape skips the textarea's blur
+        commitKeys();
+        onClose();
+      }}
+    >
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Presets</DialogTitle>
+          <DialogDescription>Changes are saved as you make them.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-[12rem_1fr] gap-4">
+          {/* Preset List */}
+          <div className="space-y-1">
+            {presets.length === 0 && <p className="text-xs text-slate-400 py-2">No presets yet</p>}
+            {presets.map(p => (
+              <button
+                key={p.id}
+                onClick={() => setCurrentId(p.id)}
+                className={`w-full flex items-center justify-between gap-2 px-3 py-1.5 rounded-md border text-xs font-medium text-left transition-all ${
+                  p.id === currentId
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white border-slate-200/60 text-slate-700 hover:bg-slate-50'
+                }`}
+              >
+                <span className="truncate">{p.name}</span>
+                <span className="opacity-70">{p.streams.length}</span>
+              </button>
+            ))}
+          </div>
+
+          {/* Editor */}
+          {preset ? (
+            <div className="space-y-3">
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <label className="block text-xs font-medium text-slate-600 mb-1.5">Name</label>
+                  <input
+                    type="text"
+                    value={preset.name}
+                    onChange={(e) => update({ name: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <button
+                  onClick={() => move(-1)}
+                  disabled={index === 0}
+                  className="p-2 bg-white border border-slate-200/60 rounded-md hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+                  title="Move up"
+                >
+                  <ArrowUp size={14} className="text-slate-500" />
+                </button>
+                <button
+                  onClick={() => move(1)}
+                  disabled={index === presets.length - 1}
+                  className="p-2 bg-white border border-slate-200/60 rounded-md hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+                  title="Move down"
+                >
+                  <ArrowDown size={14} className="text-slate-500" />
+                </button>
+                <button
+                  onClick={remove}
+                  className="p-2 bg-white border border-red-200 rounded-md hover:bg-red-50 transition-all"
+                  title="Delete preset"
+                >
+                  <Trash2 size={14} className="text-red-600" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1.5">Server</label>
+                  <select
+                    value={serverValue}
+                    onChange={(e) => update({ streams: preset.streams.map(s => ({ ...s, serverId: e.target.value })) })}
+                    className={inputClass}
+                  >
+                    {serverValue === MIXED_SERVERS && (
+                      <option value={MIXED_SERVERS} disabled>Mixed (per stream)</option>
+                    )}
+                    {profiles.map(profile => (
+                      <option key={profile.id} value={profile.id}>{profile.name || 'Untitled'}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1.5">Layout</label>
+                  <select
+                    value={preset.layout.columns}
+                    onChange={(e) => update({
+                      layout: { columns: e.target.value === 'auto' ? 'auto' : Number(e.target.value) as WallColumns },
+                    })}
+                    className={inputClass}
+                  >
+                    <option value="auto">Auto</option>
+                    <option value="1">1 column</option>
+                    <option value="2">2 columns</option>
+                    <option value="3">3 columns</option>
+                    <option value="4">4 columns</option>
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1.5">
+                  Stream keys <span className="font-normal text-slate-400">(one per line, up to {MAX_STREAMS})</span>
+                </label>
+                <textarea
+                  value={keysText}
+                  onChange={(e) => setKeysText(e.target.value)}
+                  onBlur={commitKeys}
+                  rows={8}
+                  spellCheck={false}
+                  className={`${inputClass} font-mono resize-y`}
+                />
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs text-slate-400 py-2">
+              Save the current wall as a preset from the Presets menu to get started.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,65 @@
+import type { QualityLevel } from '../lib/playback/types';
+import { formatBitrate } from '../lib/format';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+
+interface QualityMenuProps {
+  levels: QualityLevel[];
+  currentLevel: number;
+  isAuto: boolean;
+  onSelect: (index: number) => void;
+}
+
+const levelName = (level: QualityLevel) =>
+  level.height > 0 ? `${level.height}p` : formatBitrate(level.bitrate);
+
+export function QualityMenu({ levels, currentLevel, isAuto, onSelect }: QualityMenuProps) {
+  const playing = levels.find(l => l.index === currentLevel);
+  const label = isAuto
+    ? `Auto${playing ? ` (${levelName(playing)})` : ''}`
+    : playing ? levelName(playing) : 'Quality';
+
+  // Highest quality first, the way players usually list them
+  const sorted = [...levels].sort((a, b) => b.bitrate - a.bitrate || b.height - a.height);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="px-1.5 py-0.5 hover:bg-slate-100 rounded-md text-[10px] font-semibold text-slate-600 whitespace-nowrap transition-all cursor-pointer"
+          title="Quality"
+        >
+          {label}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs">Quality</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={isAuto ? 'auto' : String(currentLevel)}
+          onValueChange={(value) => onSelect(value === 'auto' ? -1 : Number(value))}
+        >
+          <DropdownMenuRadioItem value="auto">
+            Auto
+            {isAuto && playing && (
+              <span className="ml-auto pl-3 text-xs text-slate-400">{levelName(playing)}</span>
+            )}
+          </DropdownMenuRadioItem>
+          {sorted.map((level) => (
+            <DropdownMenuRadioItem key={level.index} value={String(level.index)}>
+              {level.height > 0 ? `${level.height}p` : `Level ${level.index + 1}`}
+              <span className="ml-auto pl-3 text-xs text-slate-400">{formatBitrate(level.bitrate)}</span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import type { ReconnectState } from '../hooks/useReconnect';
+
+interface ReconnectStatusProps {
+  reconnect: ReconnectState;
+  maxAttempts: number;
+  onRetryNow: () => void;
+  onCancel: () => void;
+}
+
+export function ReconnectStatus({ reconnect, maxAttempts, onRetryNow, onCancel }: ReconnectStatusProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (reconnect.retryAt === null) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [reconnect.retryAt]);
+
+  let message: string;
+  if (reconnect.retryAt !== null) {
+    const seconds = Math.max(0, Math.ceil((reconnect.retryAt - now) / 1000));
+    message = `Retrying in ${seconds}s (attempt ${reconnect.attempt}/${maxAttempts})`;
+  } else if (reconnect.isRetrying) {
+    message = `Reconnecting... (attempt ${reconnect.attempt}/${maxAttempts})`;
+  } else if (reconnect.exhausted) {
+    message = `Gave up after ${reconnect.attempt} attempts`;
+  } else if (reconnect.attempt > 0) {
+    message = 'Reconnect cancelled';
+  } else {
+    return null;
+  }
+
+  return (
+    <div className="mt-3 flex flex-col items-center gap-2">
+      <p className="text-xs font-medium text-red-700 tabular-nums">{message}</p>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onRetryNow}
+          className="px-2.5 py-1 bg-red-600 hover:bg-red-700 rounded-md text-white text-xs font-medium transition-all cursor-pointer"
+        >
+          {reconnect.retryAt !== null ? 'Retry now' : 'Retry'}
+        </button>
+        {reconnect.retryAt !== null && (
+          <button
+            onClick={onCancel}
+            className="px-2.5 py-1 bg-white hover:bg-red-50 border border-red-200 rounded-md text-red-700 text-xs font-medium transition-all cursor-pointer"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { Trash2 } from 'lucide-react';
+import { UrlTemplateSettings } from './UrlTemplateSettings';
+import {
+  AUTH_LABELS,
+  emptyAuth,
+  serverVariables,
+  type ServerAuth,
+  type ServerAuthType,
+  type ServerProfile,
+} from '../lib/serverProfile';
+import type { UrlScheme } from '../lib/urlTemplate';
+
+interface ServerProfileEditorProps {
+  profile: ServerProfile;
+  onChange: (profile: ServerProfile) => void;
+  onDelete?: () => void;
+  previewKey: string;
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-white border border-slate-200/60 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+export function ServerProfileEditor({ profile, onChange, onDelete, previewKey }: ServerProfileEditorProps) {
+  const update = (changes: Partial<ServerProfile>) => onChange({ ...profile, ...changes });
+  const updateAuth = (auth: ServerAuth) => update({ auth });
+  const { auth } = profile;
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1.5">Name</label>
+          <input
+            type="text"
+            value={profile.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="EU ingest"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1.5">Scheme</label>
+          <select
+            value={profile.scheme}
+            onChange={(e) => update({ scheme: e.target.value as UrlScheme })}
+            className={inputClass}
+          >
+            <option value="https">https</option>
+            <option value="http">http</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1.5">Host</label>
+          <input
+            type="text"
+            value={profile.host}
+            onChange={(e) => update({ host: e.target.value })}
+            placeholder="13.232.150.48"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1.5">Port</label>
+          <input
+            type="text"
+            value={profile.port}
+            onChange={(e) => update({ port: e.target.value })}
+            placeholder="Default"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1.5">App Path</label>
+          <input
+            type="text"
+            value={profile.app}
+            onChange={(e) => update({ app: e.target.value })}
+            placeholder="hls"
+            className={inputClass}
+          />
+        </div>
+        <div className="flex justify-end">
+          {onDelete && (
+            <button
+              onClick={onDelete}
+              className="flex items-center gap-1.5 px-3 py-2 bg-white border border-red-200 text-red-600 rounded-md hover:bg-red-50 text-xs font-medium transition-all"
+              title="Delete this server profile"
+            >
+              <Trash2 size={14} />
+              Delete
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Auth */}
+      <div className="mt-4 grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1.5">Auth</label>
+          <select
+            value={auth.type}
+            onChange={(e) => updateAuth(emptyAuth(e.target.value as ServerAuthType))}
+            className={inputClass}
+          >
+            {(Object.keys(AUTH_LABELS) as ServerAuthType[]).map(type => (
+              <option key={type} value={type}>{AUTH_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        {auth.type === 'bearer' && (
+          <div className="lg:col-span-2">
+            <label className="block text-xs font-medium text-slate-600 mb-1.5">Token</label>
+            <input
+              type="password"
+              value={auth.token}
+              onChange={(e) => updateAuth({ ...auth, token: e.target.value })}
+              autoComplete="off"
+              className={inputClass}
+            />
+          </div>
+        )}
+        {auth.type === 'basic' && (
+          <>
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1.5">Username</label>
+              <input
+                type="text"
+                value={auth.username}
+                onChange={(e) => updateAuth({ ...auth, username: e.target.value })}
+                autoComplete="off"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1.5">Password</label>
+              <input
+                type="password"
+                value={auth.password}
+                onChange={(e) => updateAuth({ ...auth, password: e.target.value })}
+                autoComplete="off"
+                className={inputClass}
+              />
+            </div>
+          </>
+        )}
+        {auth.type === 'query' && (
+          <>
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1.5">Parameter</label>
+              <input
+                type="text"
+                value={auth.param}
+                onChange={(e) => updateAuth({ ...auth, param: e.target.value })}
+                placeholder="token"
+                className={inputClass}
+              />
+            </div>
+            <div className="lg:col-span-2">
+              <label className="block text-xs font-medium text-slate-600 mb-1.5">Token</label>
+              <input
+                type="password"
+                value={auth.token}
+                onChange={(e) => updateAuth({ ...auth, token: e.target.value })}
+                autoComplete="off"
+                className={inputClass}
+              />
+            </div>
+          </>
+        )}
+      </div>
+      {(auth.type === 'bearer' || auth.type === 'basic') && (
+        <p className="mt-2 text-[11px] text-slate-500">
+          Sent as an <code>Authorization</code> header. Safari's native HLS player can't send headers; use a query token there.
+        </p>
+      )}
+
+      <UrlTemplateSettings
+        key={profile.id}
+        templates={profile.urlTemplates}
+        onTemplateChange={(protocol, template) => update({ urlTemplates: { ...profile.urlTemplates, [protocol]: template } })}
+        server={serverVariables(profile)}
+        previewKey={previewKey}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import type { PlaybackHealth } from '../hooks/usePlaybackHealth';
+import { Tooltip, TooltipContent, TooltipTrigger } from './ui/tooltip';
+
+interface SignalBarsProps {
+  health: PlaybackHealth;
+}
+
+const BAR_HEIGHTS = ['h-2.5', 'h-3', 'h-3.5', 'h-4'];
+
+const scoreColor = (score: number) => {
+  if (score >= 4) return 'bg-emerald-400';
+  if (score === 3) return 'bg-lime-400';
+  if (score === 2) return 'bg-amber-400';
+  return 'bg-red-500';
+};
+
+export function SignalBars({ health }: SignalBarsProps) {
+  const color = scoreColor(health.score);
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className="flex items-end gap-0.5 cursor-help" aria-label={`Signal quality ${health.score} of 4`}>
+          {BAR_HEIGHTS.map((height, index) => (
+            <div
+              key={height}
+              className={`w-0.5 ${height} rounded-full ${index < health.score ? color : 'bg-white/30'}`}
+            ></div>
+          ))}
+        </div>
+      </TooltipTrigger>
+      <TooltipContent side="bottom">
+        {health.reasons.length === 0 ? (
+          <p>Healthy playback</p>
+        ) : (
+          <ul className="space-y-0.5">
+            {health.reasons.map(reason => (
+              <li key={reason}>{reason}</li>
+            ))}
+          </ul>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,50 @@
+import { X } from 'lucide-react';
+import type { PlaybackStats } from '../lib/playback/types';
+import { formatBitrate } from '../lib/format';
+
+interface StatsOverlayProps {
+  stats: PlaybackStats;
+  onClose: () => void;
+}
+
+const seconds = (value: number | null) => (value === null ? '—' : `${value.toFixed(2)}s`);
+
+export function StatsOverlay({ stats, onClose }: StatsOverlayProps) {
+  const droppedPct = stats.decodedFrames > 0
+    ? ((stats.droppedFrames / stats.decodedFrames) * 100).toFixed(1)
+    : '0.0';
+
+  const rows: [string, string][] = [
+    ['Resolution', stats.width > 0 ? `${stats.width}×${stats.height}` : '—'],
+    ['Level bitrate', stats.levelBitrate !== null ? formatBitrate(stats.levelBitrate) : '—'],
+    ['Est. bandwidth', stats.bandwidthEstimate !== null ? formatBitrate(stats.bandwidthEstimate) : '—'],
+    ['Buffer', seconds(stats.bufferLength)],
+    ['Latency', seconds(stats.latency)],
+    ['Frames', `${stats.droppedFrames} dropped / ${stats.decodedFrames} (${droppedPct}%)`],
+    ['Video codec', stats.videoCodec ?? '—'],
+    ['Audio codec', stats.audioCodec ?? '—'],
+    ['Segment', seconds(stats.segmentDuration)],
+  ];
+
+  return (
+    <div className="absolute top-9 left-2.5 z-20 bg-black/75 backdrop-blur-sm rounded-md px-2.5 py-2 text-[10px] font-mono text-white/90 max-w-[85%]">
+      <button
+        onClick={onClose}
+        className="absolute top-1 right-1 p-0.5 hover:bg-white/10 rounded-md transition-all cursor-pointer"
+        title="Close stats"
+      >
+        <X size={10} />
+      </button>
+      <table className="pr-4">
+        <tbody>
+          {rows.map(([label, value]) => (
+            <tr key={label}>
+              <td className="pr-2 text-white/60 whitespace-nowrap align-top">{label}</td>
+              <td className="break-all">{value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
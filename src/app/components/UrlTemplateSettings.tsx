@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { Copy, Check, RotateCcw } from 'lucide-react';
+import { PROTOCOL_LABELS } from '../lib/playback/engine';
+import type { StreamProtocol } from '../lib/playback/types';
+import {
+  buildStreamUrl,
+  formatStreamUrl,
+  validateUrlTemplate,
+  DEFAULT_URL_TEMPLATES,
+  TEMPLATE_VARIABLES,
+  type ServerVariables,
+} from '../lib/urlTemplate';
+import { copyText } from '../lib/clipboard';
+
+interface UrlTemplateSettingsProps {
+  templates: Record<StreamProtocol, string>;
+  onTemplateChange: (protocol: StreamProtocol, template: string) => void;
+  server: ServerVariables;
+  previewKey: string;
+}
+
+export function UrlTemplateSettings({ templates, onTemplateChange, server, previewKey }: UrlTemplateSettingsProps) {
+  const [protocol, setProtocol] = useState<StreamProtocol>('hls');
+  const [sampleKey, setSampleKey] = useState(previewKey);
+  const [copied, setCopied] = useState(false);
+  // Edits that don't validate stay here; playback keeps the last valid template
+  const [drafts, setDrafts] = useState<Partial<Record<StreamProtocol, string>>>({});
+
+  const template = drafts[protocol] ?? templates[protocol];
+  const errors = validateUrlTemplate(template);
+
+  const changeTemplate = (value: string) => {
+    const isValid = validateUrlTemplate(value).length === 0;
+    setDrafts(prev => ({ ...prev, [protocol]: isValid ? undefined : value }));
+    if (isValid) onTemplateChange(protocol, value);
+  };
+  const urlFormat = formatStreamUrl(template, server);
+
+  const handleCopyUrl = async () => {
+    if (await copyText(urlFormat)) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex items-end gap-3">
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1.5">Protocol</label>
+          <select
+            value={protocol}
+            onChange={(e) => setProtocol(e.target.value as StreamProtocol)}
+            className="px-3 py-2 bg-white border border-slate-200/60 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          >
+            {(Object.keys(PROTOCOL_LABELS) as StreamProtocol[]).map(p => (
+              <option key={p} value={p}>{PROTOCOL_LABELS[p]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1">
+          <label className="block text-xs font-medium text-slate-600 mb-1.5">URL Template</label>
+          <input
+            type="text"
+            value={template}
+            onChange={(e) => changeTemplate(e.target.value)}
+            spellCheck={false}
+            className={`w-full px-3 py-2 bg-white border rounded-md focus:outline-none focus:ring-2 focus:border-transparent text-sm font-mono ${
+              errors.length > 0 ? 'border-red-300 focus:ring-red-500' : 'border-slate-200/60 focus:ring-blue-500'
+            }`}
+          />
+        </div>
+        <button
+          onClick={() => changeTemplate(DEFAULT_URL_TEMPLATES[protocol])}
+          disabled={template === DEFAULT_URL_TEMPLATES[protocol]}
+          className="p-2 bg-white border border-slate-200/60 rounded-md hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+          title="Restore default template"
+        >
+          <RotateCcw size={14} className="text-slate-500" />
+        </button>
+      </div>
+
+      <p className="text-[11px] text-slate-500">
+        Placeholders: {TEMPLATE_VARIABLES.map(name => `{${name}}`).join(' ')} · an empty port drops <code>:{'{port}'}</code>
+      </p>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-0.5">
+          {errors.map(error => <li key={error}>{error}</li>)}
+          <li className="text-slate-500">Not saved; streams keep using <span className="font-mono">{templates[protocol]}</span></li>
+        </ul>
+      )}
+
+      <div className="p-3 bg-blue-50 rounded-md border border-blue-100/50 space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-blue-700 break-all">
+            <span className="font-semibold">Stream URL format:</span> {urlFormat}
+          </p>
+          <button
+            onClick={handleCopyUrl}
+            className="flex items-center gap-1.5 px-2.5 py-1 bg-blue-600 hover:bg-blue-700 rounded-md text-white text-xs font-medium transition-all ml-3 whitespace-nowrap"
+            title="Copy URL format"
+          >
+            {copied ? (
+              <>
+                <Check size={13} />
+                <span>Copied!</span>
+              </>
+            ) : (
+              <>
+                <Copy size={13} />
+                <span>Copy</span>
+              </>
+            )}
+          </button>
+        </div>
+        <div className="flex items-center gap-2 text-xs text-blue-700">
+          <span className="font-semibold whitespace-nowrap">Preview for</span>
+          <input
+            type="text"
+            value={sampleKey}
+            onChange={(e) => setSampleKey(e.target.value)}
+            className="w-28 px-2 py-0.5 bg-white border border-blue-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-xs font-mono"
+          />
+          <span className="font-mono break-all">{sampleKey ? buildStreamUrl(template, server, sampleKey) : '—'}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
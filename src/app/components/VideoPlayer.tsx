@@ -1,128 +1,216 @@
 import { useState, useEffect, useRef } from 'react';
-import { Play, VolumeOff, Volume2, Expand, Circle, Star, AlertCircle, WifiOff, RotateCw } from 'lucide-react';
-import Hls from 'hls.js';
-
-type StreamStatus = 'idle' | 'loading' | 'playing' | 'error' | 'buffering';
+import { Play, Pause, VolumeOff, Volume2, Expand, Circle, Star, AlertCircle, WifiOff, RotateCw, Archive, History, Activity, Radio, CircleStop, PictureInPicture2, Camera } from 'lucide-react';
+import { useRecorder } from '../hooks/useRecorder';
+import { useSegmentArchive, ARCHIVE_MAX_BYTES, ARCHIVE_MAX_SEGMENTS } from '../hooks/useSegmentArchive';
+import { useReplayBuffer, REPLAY_BUFFER_OPTIONS, REPLAY_CLIP_SECONDS } from '../hooks/useReplayBuffer';
+import { useLiveTimeline } from '../hooks/useLiveTimeline';
+import { usePlaybackStats } from '../hooks/usePlaybackStats';
+import { usePlaybackHealth } from '../hooks/usePlaybackHealth';
+import { useQualityLevels } from '../hooks/useQualityLevels';
+import { useReconnect, DEFAULT_RECONNECT_POLICY, type ReconnectPolicy } from '../hooks/useReconnect';
+import { useManifestWatch, MANIFEST_POLL_INTERVAL } from '../hooks/useManifestWatch';
+import { useWallClock } from '../hooks/useWallClock';
+import { usePictureInPicture } from '../hooks/usePictureInPicture';
+import { useZoomPan } from '../hooks/useZoomPan';
+import { zoomTransform } from '../lib/zoom';
+import { drawSnapshot, canvasToBlob } from '../lib/snapshot';
+import { downloadBlob, fileTimestamp, sanitizeFilename } from '../lib/download';
+import { createPlaybackEngine, PROTOCOL_LABELS } from '../lib/playback/engine';
+import type { PlaybackEngine, PlaybackEvent, StreamProtocol, StreamStatus } from '../lib/playback/types';
+import { useAudioMixer } from '../context/AudioMixerContext';
+import { useSnapshots } from '../context/SnapshotContext';
+import { createSegmentTap } from '../lib/segmentTap';
+import { formatBytes } from '../lib/format';
+import { setAudioOutputDevice } from '../lib/audioContext';
+import { setMediaOutput } from '../lib/audioTap';
+import { isMediaReadable } from '../lib/mediaCapture';
+import { DvrTimeline } from './DvrTimeline';
+import { StatsOverlay } from './StatsOverlay';
+import { SignalBars } from './SignalBars';
+import { QualityMenu } from './QualityMenu';
+import { ReconnectStatus } from './ReconnectStatus';
+import { WallClockDisplay } from './WallClockDisplay';
+import { AudioMeter } from './AudioMeter';
+import { ZoomMinimap } from './ZoomMinimap';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
 
 interface VideoPlayerProps {
+  // Identifies the tile to wall-wide features such as snapshots
+  streamId: string;
   streamKey: string;
   streamUrl: string;
+  protocol?: StreamProtocol;
+  // Auth headers for the stream's server
+  requestHeaders?: Record<string, string>;
+  // Shown on the tile when the wall mixes servers
+  serverName?: string;
+  label?: string;
   onRemove: () => void;
   onTogglePin: () => void;
   isPinned?: boolean;
+  dvrWindow?: number;
+  reconnectPolicy?: ReconnectPolicy;
 }
 
-export function VideoPlayer({ streamKey, streamUrl, onRemove, onTogglePin, isPinned = false }: VideoPlayerProps) {
+export function VideoPlayer({
+  streamId,
+  streamKey,
+  streamUrl,
+  protocol = 'hls',
+  requestHeaders = {},
+  serverName,
+  label,
+  onRemove,
+  onTogglePin,
+  isPinned = false,
+  dvrWindow = 300,
+  reconnectPolicy = DEFAULT_RECONNECT_POLICY,
+}: VideoPlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const hlsRef = useRef<Hls | null>(null);
+  const videoAreaRef = useRef<HTMLDivElement>(null);
+  const engineRef = useRef<PlaybackEngine | null>(null);
   const [status, setStatus] = useState<StreamStatus>('idle');
-  const [isMuted, setIsMuted] = useState(true);
-  const [isRecording, setIsRecording] = useState(false);
   const [time, setTime] = useState(0);
   const [errorMessage, setErrorMessage] = useState('');
   const [refreshKey, setRefreshKey] = useState(0);
+  const [showStats, setShowStats] = useState(false);
+  const [useUtc, setUseUtc] = useState(false);
+  const mixer = useAudioMixer();
+  const audioChannel = mixer.channel(streamKey);
+  const isMuted = !mixer.isAudible(streamKey);
+  const recorder = useRecorder(videoRef, streamKey);
+  const [segmentTap] = useState(createSegmentTap);
+  const archive = useSegmentArchive(segmentTap, streamKey);
+  const replay = useReplayBuffer(segmentTap, streamKey);
+  const isStreaming = status === 'playing' || status === 'buffering';
+  const live = useLiveTimeline(videoRef, engineRef, isStreaming, dvrWindow);
+  const stats = usePlaybackStats(engineRef, isStreaming);
+  const health = usePlaybackHealth(stats, status === 'buffering');
+  const quality = useQualityLevels(engineRef, streamKey, isStreaming);
+  const wallClock = useWallClock(engineRef, isStreaming);
+  const hasWallClock = wallClock !== null;
+  const pip = usePictureInPicture(videoRef);
+  const zoom = useZoomPan(videoAreaRef);
+  const isZoomed = zoom.region.scale > 1;
+  const snapshots = useSnapshots();
+
+  // Frames from a cross-origin URL without CORS would taint the canvas
+  const canSnapshot = status === 'playing' && !!videoRef.current && isMediaReadable(videoRef.current);
+
+  const grabFrame = () => {
+    const video = videoRef.current;
+    if (!video || status !== 'playing' || video.videoWidth === 0 || !isMediaReadable(video)) return null;
+    const { burnIn, note } = snapshots.options;
+    const timestamp = engineRef.current?.getPlayingDate() ?? new Date();
+    return drawSnapshot(video, zoom.region, burnIn ? { streamKey, timestamp, note } : null);
+  };
+  const grabFrameRef = useRef(grabFrame);
+  grabFrameRef.current = grabFrame;
+
+  useEffect(() => snapshots.register(streamId, streamKey, () => grabFrameRef.current()), [streamId, streamKey]);
+  // Set while a rebuild is the reconnect hook's own doing, so it keeps counting attempts
+  const reconnectRebuildRef = useRef(false);
+  const reconnect = useReconnect(reconnectPolicy, () => {
+    reconnectRebuildRef.current = true;
+    setRefreshKey(prev => prev + 1);
+  });
+
+  useManifestWatch(streamUrl, protocol, status === 'offline' || status === 'ended', (state) => {
+    if (state === 'live') {
+      setRefreshKey(prev => prev + 1);
+    } else if (state === 'ended') {
+      setStatus('ended');
+    }
+  }, requestHeaders);
+
+  // A fresh object arrives every render; only reload when the values change
+  const headersKey = JSON.stringify(requestHeaders);
+
+  const handleEngineEvent = (event: PlaybackEvent) => {
+    if (event.type === 'progress') {
+      reconnect.reset();
+    } else if (event.type === 'status') {
+      setStatus(event.status);
+      if (event.status === 'error') {
+        setErrorMessage(event.error?.message ?? 'Stream Error');
+        reconnect.schedule(event.error?.recover);
+      } else if (event.status === 'offline') {
+        // Nothing published yet: the manifest watch takes over from here
+        reconnect.reset();
+      }
+    }
+  };
 
-  // HLS.js integration
   useEffect(() => {
     const video = videoRef.current;
     if (!video || !streamUrl) return;
 
+    // A new source, new credentials or a manual refresh starts retrying from scratch
+    if (reconnectRebuildRef.current) {
+      reconnectRebuildRef.current = false;
+    } else {
+      reconnect.reset();
+    }
+
     setStatus('loading');
     setErrorMessage('');
     setTime(0);
 
-    if (Hls.isSupported()) {
-      const hls = new Hls({
-        enableWorker: true,
-        lowLatencyMode: true,
-      });
-      
-      hlsRef.current = hls;
-
-      hls.on(Hls.Events.MANIFEST_PARSED, () => {
-        setStatus('playing');
-        video.play().catch((err) => {
-          console.warn('Autoplay failed:', err);
-        });
-      });
-
-      hls.on(Hls.Events.ERROR, (event, data) => {
-        console.warn('HLS error:', data);
-        
-        if (data.fatal) {
-          switch (data.type) {
-            case Hls.ErrorTypes.NETWORK_ERROR:
-              if (data.response?.code === 0 || !data.response?.code) {
-                setStatus('error');
-                setErrorMessage('CORS or Connection Error');
-              } else if (data.response?.code === 404) {
-                setStatus('error');
-                setErrorMessage('Stream Not Found (404)');
-              } else {
-                setStatus('error');
-                setErrorMessage('Network Error');
-              }
-              // Try to recover
-              setTimeout(() => {
-                if (hlsRef.current) {
-                  hlsRef.current.startLoad();
-                }
-              }, 3000);
-              break;
-            case Hls.ErrorTypes.MEDIA_ERROR:
-              setStatus('error');
-              setErrorMessage('Media Error');
-              hls.recoverMediaError();
-              break;
-            default:
-              setStatus('error');
-              setErrorMessage('Stream Error');
-              break;
-          }
-        } else if (data.details === 'bufferStalledError') {
-          setStatus('buffering');
-        }
-      });
-
-      hls.on(Hls.Events.FRAG_BUFFERED, () => {
-        if (status === 'buffering') {
-          setStatus('playing');
-        }
-      });
-
-      hls.loadSource(streamUrl);
-      hls.attachMedia(video);
-
-      return () => {
-        hls.destroy();
-      };
-    } else if (video.canPlayType('application/vnd.apple.mpegurl')) {
-      // Native HLS support (Safari)
-      video.src = streamUrl;
-      video.addEventListener('loadedmetadata', () => {
-        setStatus('playing');
-        video.play().catch((err) => console.warn('Autoplay failed:', err));
-      });
-      video.addEventListener('error', () => {
-        setStatus('error');
-        setErrorMessage('Failed to load stream');
-      });
-      video.addEventListener('waiting', () => setStatus('buffering'));
-      video.addEventListener('playing', () => setStatus('playing'));
-    } else {
+    const engine = createPlaybackEngine(video, { protocol, dvrWindow, segmentTap, headers: requestHeaders });
+    if (!engine) {
       setStatus('error');
-      setErrorMessage('HLS not supported in this browser');
+      setErrorMessage(`${PROTOCOL_LABELS[protocol]} not supported in this browser`);
+      return;
     }
-  }, [streamUrl, refreshKey]);
+
+    engineRef.current = engine;
+    const unsubscribe = engine.subscribe(handleEngineEvent);
+    engine.load(streamUrl);
+
+    return () => {
+      unsubscribe();
+      engine.destroy();
+      engineRef.current = null;
+      // A retry queued against this engine has nothing left to recover
+      if (!reconnectRebuildRef.current) reconnect.reset();
+    };
+  }, [streamUrl, protocol, headersKey, refreshKey]);
 
   useEffect(() => {
-    if (status === 'playing') {
+    engineRef.current?.setBackBuffer(dvrWindow);
+  }, [dvrWindow]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (video) setMediaOutput(video, audioChannel.volume, isMuted);
+  }, [isMuted, audioChannel.volume]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (video && 'setSinkId' in video) {
+      video.setSinkId(mixer.sinkId).catch((err) => console.warn('Failed to switch audio output:', err));
+    }
+    setAudioOutputDevice(mixer.sinkId);
+  }, [mixer.sinkId]);
+
+  // Fallback counter for playlists without EXT-X-PROGRAM-DATE-TIME
+  useEffect(() => {
+    if (status === 'playing' && !hasWallClock) {
       const interval = setInterval(() => {
         setTime(t => t + 1);
       }, 1000);
       return () => clearInterval(interval);
     }
-  }, [status]);
+  }, [status, hasWallClock]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -130,22 +218,33 @@ export function VideoPlayer({ streamKey, streamUrl, onRemove, onTogglePin, isPin
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  // Fullscreen the video area rather than the element so the zoom transform carries over
   const handleExpand = () => {
-    if (videoRef.current) {
-      if (videoRef.current.requestFullscreen) {
-        videoRef.current.requestFullscreen();
+    if (videoAreaRef.current) {
+      if (videoAreaRef.current.requestFullscreen) {
+        videoAreaRef.current.requestFullscreen();
       }
     }
   };
 
-  const handleMuteToggle = () => {
-    if (videoRef.current) {
-      videoRef.current.muted = !isMuted;
-      setIsMuted(!isMuted);
+  const handleSnapshot = async () => {
+    try {
+      const canvas = grabFrame();
+      if (!canvas) return;
+      const { format } = snapshots.options;
+      const blob = await canvasToBlob(canvas, format);
+      downloadBlob(blob, `${sanitizeFilename(streamKey)}_${fileTimestamp(new Date())}.${format === 'jpeg' ? 'jpg' : 'png'}`);
+    } catch (err) {
+      console.error('Snapshot failed:', err);
     }
   };
 
+  const handleMuteToggle = () => {
+    mixer.setMuted(streamKey, !audioChannel.muted);
+  };
+
   const handleRefresh = () => {
+    reconnect.reset();
     setRefreshKey(prev => prev + 1);
   };
 
@@ -182,6 +281,28 @@ export function VideoPlayer({ streamKey, streamUrl, onRemove, onTogglePin, isPin
             <p className="text-xs text-amber-600/70 mt-1">Slow connection</p>
           </div>
         );
+      case 'offline':
+        return (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-gradient-to-br from-slate-100 to-slate-200">
+            <div className="w-16 h-16 rounded-full bg-slate-200 flex items-center justify-center mb-3">
+              <Radio size={32} className="text-slate-500 animate-pulse" />
+            </div>
+            <p className="font-semibold text-slate-700">Waiting for publisher</p>
+            <p className="text-xs text-slate-500 mt-1">
+              Stream not live yet · checking every {MANIFEST_POLL_INTERVAL / 1000}s
+            </p>
+          </div>
+        );
+      case 'ended':
+        return (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-gradient-to-br from-slate-100 to-slate-200">
+            <div className="w-16 h-16 rounded-full bg-slate-200 flex items-center justify-center mb-3">
+              <CircleStop size={32} className="text-slate-500" />
+            </div>
+            <p className="font-semibold text-slate-700">Stream ended</p>
+            <p className="text-xs text-slate-500 mt-1">Will resume when the publisher goes live again</p>
+          </div>
+        );
       case 'error':
         return (
           <div className="absolute inset-0 flex flex-col items-center justify-center bg-gradient-to-br from-red-50 to-rose-100">
@@ -190,6 +311,12 @@ export function VideoPlayer({ streamKey, streamUrl, onRemove, onTogglePin, isPin
             </div>
             <p className="font-semibold text-red-700">{errorMessage || 'Stream Error'}</p>
             <p className="text-xs text-red-600/70 mt-1">Check stream key and server</p>
+            <ReconnectStatus
+              reconnect={reconnect}
+              maxAttempts={reconnect.maxAttempts}
+              onRetryNow={reconnect.retryNow}
+              onCancel={reconnect.cancel}
+            />
           </div>
         );
       default:
@@ -211,10 +338,15 @@ export function VideoPlayer({ streamKey, streamUrl, onRemove, onTogglePin, isPin
       </button>
 
       {/* Video Area */}
-      <div className="aspect-video relative bg-slate-900 overflow-hidden">
+      <div
+        ref={videoAreaRef}
+        className={`aspect-video relative bg-slate-900 overflow-hidden ${isZoomed ? 'touch-none cursor-grab active:cursor-grabbing' : 'touch-pan-y'}`}
+        {...zoom.handlers}
+      >
         <video
           ref={videoRef}
-          className="w-full h-full object-cover"
+          className="w-full h-full object-cover origin-top-left"
+          style={isZoomed ? { transform: zoomTransform(zoom.region) } : undefined}
           autoPlay
           muted={isMuted}
           playsInline
@@ -222,42 +354,138 @@ export function VideoPlayer({ streamKey, streamUrl, onRemove, onTogglePin, isPin
         
         {getStatusDisplay()}
 
+        {/* Zoom Minimap */}
+        {isZoomed && status === 'playing' && (
+          <ZoomMinimap region={zoom.region} onReset={zoom.reset} />
+        )}
+
+        {/* Wheel Zoom Hint */}
+        {zoom.showWheelHint && status === 'playing' && (
+          <div className="absolute inset-x-0 bottom-3 z-10 flex justify-center pointer-events-none">
+            <span className="px-2.5 py-1 bg-black/60 backdrop-blur-sm rounded-md text-white text-xs font-medium">
+              Hold Ctrl and scroll to zoom
+            </span>
+          </div>
+        )}
+
+        {/* Picture-in-Picture Placeholder */}
+        {pip.isActive && (
+          <div className="absolute inset-0 z-20 flex flex-col items-center justify-center bg-gradient-to-br from-slate-800 to-slate-900">
+            <PictureInPicture2 size={32} className="text-slate-400 mb-3" />
+            <p className="text-sm font-medium text-slate-200">Playing in picture-in-picture</p>
+            <button
+              onClick={pip.toggle}
+              className="mt-3 px-2.5 py-1 bg-white/10 hover:bg-white/20 rounded-md text-white text-xs font-medium transition-all cursor-pointer"
+            >
+              Return to tile
+            </button>
+          </div>
+        )}
+
         {/* Live Badge */}
         {status === 'playing' && (
-          <div className="absolute top-2.5 left-2.5 bg-red-600/90 backdrop-blur-sm px-2 py-0.5 rounded-md text-xs font-semibold flex items-center gap-1 z-10">
-            <Circle size={6} className="fill-white animate-pulse" />
-            LIVE
-          </div>
+          live.isPaused ? (
+            <div className="absolute top-2.5 left-2.5 bg-slate-700/90 backdrop-blur-sm px-2 py-0.5 rounded-md text-xs font-semibold text-white flex items-center gap-1 z-10">
+              <Pause size={8} className="fill-white" />
+              PAUSED
+            </div>
+          ) : live.timeline && !live.timeline.isAtLive ? (
+            <div className="absolute top-2.5 left-2.5 bg-slate-700/90 backdrop-blur-sm px-2 py-0.5 rounded-md text-xs font-semibold text-white flex items-center gap-1 z-10">
+              <Circle size={6} className="fill-white" />
+              DVR
+            </div>
+          ) : (
+            <div className="absolute top-2.5 left-2.5 bg-red-600/90 backdrop-blur-sm px-2 py-0.5 rounded-md text-xs font-semibold flex items-center gap-1 z-10">
+              <Circle size={6} className="fill-white animate-pulse" />
+              LIVE
+            </div>
+          )
+        )}
+
+        {/* Stats Overlay */}
+        {showStats && stats && (
+          <StatsOverlay stats={stats} onClose={() => setShowStats(false)} />
         )}
 
         {/* Signal Quality Indicator */}
-        {status === 'playing' && (
-          <div className="absolute top-2.5 right-12 flex gap-0.5 z-10">
-            <div className="w-0.5 h-2.5 bg-white/80 rounded-full"></div>
-            <div className="w-0.5 h-3 bg-white/80 rounded-full"></div>
-            <div className="w-0.5 h-3.5 bg-white/80 rounded-full"></div>
-            <div className="w-0.5 h-4 bg-white/80 rounded-full"></div>
+        {status === 'playing' && health && (
+          <div className="absolute top-2.5 right-12 z-10">
+            <SignalBars health={health} />
           </div>
         )}
       </div>
 
+      {/* DVR Timeline */}
+      {live.timeline && (
+        <DvrTimeline timeline={live.timeline} onSeek={live.seek} onGoLive={live.goLive} />
+      )}
+
       {/* Controls Bar */}
       <div className="bg-slate-50/50 backdrop-blur-sm px-3.5 py-2.5 flex items-center justify-between border-t border-slate-200/60">
         <div className="flex items-center gap-2.5 flex-1 min-w-0">
           {status === 'playing' && (
-            <button className="p-1 hover:bg-slate-100 rounded-md transition-all">
-              <Play size={13} fill="currentColor" className="text-blue-600" />
+            <button
+              onClick={live.togglePause}
+              className="p-1 hover:bg-slate-100 rounded-md transition-all cursor-pointer"
+              title={live.isPaused ? 'Resume' : 'Pause'}
+            >
+              {live.isPaused ? (
+                <Play size={13} fill="currentColor" className="text-blue-600" />
+              ) : (
+                <Pause size={13} fill="currentColor" className="text-blue-600" />
+              )}
             </button>
           )}
           <div className="flex items-center gap-1.5">
             <div className="w-1 h-1 rounded-full bg-blue-600"></div>
-            <span className="text-xs font-medium text-slate-600">
-              {status === 'playing' ? formatTime(time) : '0:00'}
-            </span>
+            {status === 'playing' && wallClock ? (
+              <WallClockDisplay clock={wallClock} useUtc={useUtc} onToggleUtc={() => setUseUtc(!useUtc)} />
+            ) : (
+              <span className="text-xs font-medium text-slate-600">
+                {status === 'playing' ? formatTime(time) : '0:00'}
+              </span>
+            )}
           </div>
+          {recorder.isRecording && (
+            <div className="flex items-center gap-1.5 min-w-0" title="Recording">
+              <div className="w-1.5 h-1.5 rounded-full bg-red-600 animate-pulse"></div>
+              <span className="text-xs font-medium text-red-600 truncate">
+                REC {formatTime(recorder.elapsed)} · {formatBytes(recorder.size)}
+              </span>
+            </div>
+          )}
+          {archive.isArchiving && (
+            <div
+              className="flex items-center gap-1.5 min-w-0"
+              title={archive.limitReached
+                ? `Archive full (${formatBytes(ARCHIVE_MAX_BYTES)} or ${ARCHIVE_MAX_SEGMENTS} segments); stop it to download`
+                : 'Raw segment archive'}
+            >
+              <div className={`w-1.5 h-1.5 rounded-full ${archive.limitReached ? 'bg-red-600' : 'bg-amber-500 animate-pulse'}`}></div>
+              <span className={`text-xs font-medium truncate ${archive.limitReached ? 'text-red-600' : 'text-amber-700'}`}>
+                RAW {archive.segmentCount} seg · {formatBytes(archive.size)}{archive.limitReached && ' · full'}
+              </span>
+            </div>
+          )}
+          {!recorder.isRecording && recorder.error && (
+            <span className="text-xs font-medium text-red-600 truncate">{recorder.error}</span>
+          )}
         </div>
 
         <div className="flex items-center gap-1">
+          {/* Quality Menu */}
+          {quality.levels.length > 1 && (
+            <QualityMenu
+              levels={quality.levels}
+              currentLevel={quality.currentLevel}
+              isAuto={quality.isAuto}
+              onSelect={quality.selectLevel}
+            />
+          )}
+
+          {/* Audio Level */}
+          <AudioMeter videoRef={videoRef} isActive={isStreaming} />
+
           {/* Mute Button */}
           <button
             onClick={handleMuteToggle}
@@ -267,6 +495,28 @@ export function VideoPlayer({ streamKey, streamUrl, onRemove, onTogglePin, isPin
             {isMuted ? <VolumeOff size={15} className="text-slate-500" /> : <Volume2 size={15} className="text-blue-600" />}
           </button>
 
+          {/* Snapshot Button */}
+          <button
+            onClick={handleSnapshot}
+            disabled={!canSnapshot}
+            className="p-1.5 hover:bg-slate-100 disabled:opacity-40 disabled:cursor-not-allowed rounded-md transition-all cursor-pointer"
+            title={status === 'playing' && !canSnapshot ? 'Snapshot unavailable: the server doesn\'t allow reading frames (CORS)' : 'Snapshot'}
+          >
+            <Camera size={15} className="text-slate-500" />
+          </button>
+
+          {/* Picture-in-Picture Button */}
+          {pip.isSupported && (
+            <button
+              onClick={pip.toggle}
+              disabled={!isStreaming && !pip.isActive}
+              className="p-1.5 hover:bg-slate-100 disabled:opacity-40 disabled:cursor-not-allowed rounded-md transition-all cursor-pointer"
+              title={pip.isActive ? 'Exit Picture-in-Picture' : 'Picture-in-Picture'}
+            >
+              <PictureInPicture2 size={15} className={pip.isActive ? 'text-blue-600' : 'text-slate-500'} />
+            </button>
+          )}
+
           {/* Expand Button */}
           <button
             onClick={handleExpand}
@@ -278,11 +528,104 @@ export function VideoPlayer({ streamKey, streamUrl, onRemove, onTogglePin, isPin
 
           {/* Record Button */}
           <button
-            onClick={() => setIsRecording(!isRecording)}
+            onClick={recorder.toggle}
+            disabled={!recorder.isRecording && (status !== 'playing' || !recorder.isSupported)}
+            className="p-1.5 hover:bg-slate-100 disabled:opacity-40 disabled:cursor-not-allowed rounded-md transition-all cursor-pointer"
+            title={recorder.isRecording ? 'Stop Recording' : 'Start Recording'}
+          >
+            <Circle size={15} className={recorder.isRecording ? 'fill-red-600 text-red-600 animate-pulse' : 'text-slate-500'} />
+          </button>
+
+          {/* Instant Replay Menu */}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                disabled={replay.bufferedSeconds === 0 && !engineRef.current?.capturesSegments}
+                className="p-1.5 hover:bg-slate-100 disabled:opacity-40 disabled:cursor-not-allowed rounded-md transition-all cursor-pointer"
+                title={replay.bufferedSeconds === 0 && !engineRef.current?.capturesSegments
+                  ? 'Instant replay isn\'t available for this stream'
+                  : 'Instant Replay'}
+              >
+                <History size={15} className="text-slate-500" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel className="text-xs">
+                {replay.bufferedSeconds > 0
+                  ? `Instant replay · ${Math.round(replay.bufferedSeconds)}s buffered`
+                  : 'Instant replay · nothing buffered yet'}
+              </DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {/* A shorter buffer never reaches a minute; saving all of it covers that */}
+              {replay.bufferSeconds >= REPLAY_CLIP_SECONDS && (
+                <DropdownMenuItem
+                  onSelect={() => replay.saveLast(REPLAY_CLIP_SECONDS)}
+                  disabled={replay.bufferedSeconds < REPLAY_CLIP_SECONDS}
+                >
+                  {replay.bufferedSeconds < REPLAY_CLIP_SECONDS
+                    ? `Save last ${REPLAY_CLIP_SECONDS}s (${Math.round(replay.bufferedSeconds)}s so far)`
+                    : `Save last ${REPLAY_CLIP_SECONDS}s`}
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem
+                onSelect={() => replay.saveLast(replay.bufferSeconds)}
+                disabled={replay.bufferedSeconds === 0}
+              >
+                Save full buffer
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-slate-500">Buffer length</DropdownMenuLabel>
+              <DropdownMenuRadioGroup
+                value={String(replay.bufferSeconds)}
+                onValueChange={(value) => replay.setBufferSeconds(Number(value))}
+              >
+                {REPLAY_BUFFER_OPTIONS.map((seconds) => (
+                  <DropdownMenuRadioItem key={seconds} value={String(seconds)}>
+                    {seconds}s
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          {/* Raw Archive Menu */}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                disabled={!archive.isArchiving && (status !== 'playing' || !engineRef.current?.capturesSegments)}
+                className="p-1.5 hover:bg-slate-100 disabled:opacity-40 disabled:cursor-not-allowed rounded-md transition-all cursor-pointer"
+                title={archive.isArchiving ? 'Stop Raw Archive' : 'Raw Archive'}
+              >
+                <Archive size={15} className={archive.isArchiving ? 'text-amber-600 animate-pulse' : 'text-slate-500'} />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel className="text-xs">Raw segment archive</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {archive.isArchiving ? (
+                <>
+                  <DropdownMenuItem onSelect={() => archive.stop('zip')}>
+                    Stop &amp; download .zip (segments + m3u8)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => archive.stop('concat')}>
+                    Stop &amp; download single file
+                  </DropdownMenuItem>
+                </>
+              ) : (
+                <DropdownMenuItem onSelect={archive.start}>
+                  Start lossless archive
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          {/* Stats Button */}
+          <button
+            onClick={() => setShowStats(!showStats)}
             className="p-1.5 hover:bg-slate-100 rounded-md transition-all cursor-pointer"
-            title={isRecording ? 'Stop Recording' : 'Start Recording'}
+            title={showStats ? 'Hide Stats' : 'Stats for Nerds'}
           >
-            <Circle size={15} className={isRecording ? 'fill-red-600 text-red-600 animate-pulse' : 'text-slate-500'} />
+            <Activity size={15} className={showStats ? 'text-blue-600' : 'text-slate-500'} />
           </button>
 
           {/* Refresh Button */}
@@ -299,8 +642,21 @@ export function VideoPlayer({ streamKey, streamUrl, onRemove, onTogglePin, isPin
       {/* Key Name */}
       <div className="bg-white px-3.5 py-2 border-t border-slate-200/60">
         <div className="flex items-center gap-2">
+          {label && <span className="text-xs font-semibold text-slate-700 truncate" title={label}>{label}</span>}
           <span className="text-xs font-medium text-slate-400">Key:</span>
           <span className="text-xs font-mono text-slate-600 bg-slate-50 px-2 py-0.5 rounded-md">{streamKey}</span>
+          <div className="ml-auto flex items-center gap-1">
+            {serverName && (
+              <span className="text-[10px] font-semibold text-slate-600 bg-slate-50 px-1.5 py-0.5 rounded-md border border-slate-200/60 truncate max-w-[8rem]" title={`Server: ${serverName}`}>
+                {serverName}
+              </span>
+            )}
+            {protocol !== 'hls' && (
+              <span className="text-[10px] font-semibold text-blue-700 bg-blue-50 px-1.5 py-0.5 rounded-md border border-blue-100/50">
+                {PROTOCOL_LABELS[protocol]}
+              </span>
+            )}
+          </div>
         </div>
       </div>
     </div>
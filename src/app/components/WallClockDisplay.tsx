@@ -0,0 +1,28 @@
+import { format } from 'date-fns';
+import type { WallClock } from '../hooks/useWallClock';
+
+interface WallClockDisplayProps {
+  clock: WallClock;
+  useUtc: boolean;
+  onToggleUtc: () => void;
+}
+
+// date-fns only formats in local time; UTC comes straight off the ISO string,
+// which shifting by the offset would get wrong around DST changes
+const formatClock = (date: Date, useUtc: boolean) =>
+  useUtc
+    ? `${date.toISOString().slice(11, 19)} UTC`
+    : format(date, 'HH:mm:ss');
+
+export function WallClockDisplay({ clock, useUtc, onToggleUtc }: WallClockDisplayProps) {
+  return (
+    <button
+      onClick={onToggleUtc}
+      className="flex items-center gap-1.5 text-xs font-medium text-slate-600 tabular-nums hover:text-slate-900 transition-all cursor-pointer"
+      title={`Capture time from the stream (${useUtc ? 'UTC' : 'local'}), click to switch · end-to-end latency`}
+    >
+      <span>{formatClock(clock.playingDate, useUtc)}</span>
+      <span className="text-slate-400">· {clock.latency.toFixed(1)}s</span>
+    </button>
+  );
+}
@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { PROTOCOL_LABELS } from '../lib/playback/engine';
+import { isProtocol, type WallColumns } from '../lib/appState';
+import { mergeWalls, type Wall, type WallMergeMode } from '../lib/wall';
+
+interface WallDiffDialogProps {
+  title: string;
+  // The wall to bring in, null when nothing is pending
+  incoming: Wall | null;
+  current: Wall;
+  warnings?: string[];
+  onApply: (mode: WallMergeMode) => void;
+  onCancel: () => void;
+}
+
+const columnsLabel = (columns: WallColumns) => (columns === 'auto' ? 'auto' : `${columns} columns`);
+
+// Previews what replacing or merging would do to the wall before committing to it
+export function WallDiffDialog({ title, incoming, current, warnings = [], onApply, onCancel }: WallDiffDialogProps) {
+  const [mode, setMode] = useState<WallMergeMode>('merge');
+
+  useEffect(() => {
+    setMode(current.streams.length === 0 ? 'replace' : 'merge');
+  }, [incoming]);
+
+  if (!incoming) {
+    return <AlertDialog open={false} />;
+  }
+
+  const result = mergeWalls(current, incoming, mode);
+  const resultKeys = new Set(result.wall.streams.map(s => s.key));
+  const currentKeys = new Set(current.streams.map(s => s.key));
+  const added = result.added.filter(s => !currentKeys.has(s.key));
+  const removed = current.streams.filter(s => !resultKeys.has(s.key));
+  const unchanged = current.streams.filter(s => resultKeys.has(s.key));
+  const alreadyOnWall = mode === 'merge' ? incoming.streams.filter(s => currentKeys.has(s.key)) : [];
+  const serverName = (serverId: string) => result.wall.profiles.find(p => p.id === serverId)?.name ?? '';
+  const layoutChanged = result.wall.layout.columns !== current.layout.columns;
+  const hasChanges = added.length > 0 || removed.length > 0 || layoutChanged;
+
+  return (
+    <AlertDialog open onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent className="sm:max-w-xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>{title}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {incoming.streams.length} stream{incoming.streams.length === 1 ? '' : 's'} incoming; your wall has {current.streams.length}.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {/* Mode */}
+        <div className="flex gap-1 p-1 bg-slate-100 rounded-md text-xs font-medium">
+          {(['merge', 'replace'] as WallMergeMode[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`flex-1 px-3 py-1.5 rounded transition-all ${mode === m ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {m === 'merge' ? 'Merge into current wall' : 'Replace current wall'}
+            </button>
+          ))}
+        </div>
+
+        {/* Diff */}
+        <div className="max-h-72 overflow-y-auto rounded-md border border-slate-200/60 divide-y divide-slate-100 text-xs">
+          {added.map(s => (
+            <div key={`+${s.key}`} className="flex items-center gap-2 px-3 py-1.5 bg-emerald-50/60">
+              <span className="font-mono font-semibold text-emerald-700 w-3">+</span>
+              <span className="font-mono text-slate-700">{s.key}</span>
+              {s.label && <span className="text-slate-500 truncate">{s.label}</span>}
+              <span className="ml-auto text-slate-400 whitespace-nowrap">
+                {serverName(s.serverId)} · {PROTOCOL_LABELS[isProtocol(s.protocol) ? s.protocol : 'hls']}
+              </span>
+            </div>
+          ))}
+          {removed.map(s => (
+            <div key={`-${s.key}`} className="flex items-center gap-2 px-3 py-1.5 bg-red-50/60">
+              <span className="font-mono font-semibold text-red-700 w-3">−</span>
+              <span className="font-mono text-slate-500 line-through">{s.key}</span>
+            </div>
+          ))}
+          {unchanged.map(s => (
+            <div key={`=${s.key}`} className="flex items-center gap-2 px-3 py-1.5 text-slate-400">
+              <span className="font-mono w-3" />
+              <span className="font-mono">{s.key}</span>
+              {alreadyOnWall.some(a => a.key === s.key) && <span className="ml-auto">already on the wall</span>}
+            </div>
+          ))}
+          {result.wall.streams.length === 0 && removed.length === 0 && (
+            <p className="px-3 py-2 text-slate-400">No streams</p>
+          )}
+        </div>
+
+        <ul className="text-xs text-slate-600 space-y-1">
+          {result.newProfiles.map(p => (
+            <li key={p.id}>
+              New server profile <span className="font-medium">{p.name}</span> ({p.host || 'no host'})
+              {p.auth.type !== 'none' && <span className="text-amber-700">: add its credentials in Settings</span>}
+            </li>
+          ))}
+          {layoutChanged && (
+            <li>Layout: {columnsLabel(current.layout.columns)} → {columnsLabel(result.wall.layout.columns)}</li>
+          )}
+          {result.dropped.length > 0 && (
+            <li className="text-amber-700">Won't fit on the wall: {result.dropped.join(', ')}</li>
+          )}
+          {warnings.map(warning => (
+            <li key={warning} className="text-amber-700">{warning}</li>
+          ))}
+        </ul>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => onApply(mode)}
+            disabled={!hasChanges}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            {mode === 'merge' ? 'Merge' : 'Replace current wall'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
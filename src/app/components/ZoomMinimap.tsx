@@ -0,0 +1,35 @@
+import { ZoomOut } from 'lucide-react';
+import type { ZoomRegion } from '../lib/zoom';
+
+interface ZoomMinimapProps {
+  region: ZoomRegion;
+  onReset: () => void;
+}
+
+export function ZoomMinimap({ region, onReset }: ZoomMinimapProps) {
+  const size = 100 / region.scale;
+
+  return (
+    <div className="absolute bottom-2.5 right-2.5 z-10 flex items-end gap-1.5">
+      <button
+        onClick={onReset}
+        className="flex items-center gap-1 px-1.5 py-0.5 bg-black/60 hover:bg-black/75 backdrop-blur-sm rounded-md text-[10px] font-semibold text-white transition-all cursor-pointer"
+        title="Reset zoom"
+      >
+        <ZoomOut size={11} />
+        {region.scale.toFixed(1)}×
+      </button>
+      <div className="relative w-16 aspect-video bg-black/50 border border-white/40 rounded-sm overflow-hidden pointer-events-none">
+        <div
+          className="absolute border border-white bg-white/20"
+          style={{
+            left: `${region.left * 100}%`,
+            top: `${region.top * 100}%`,
+            width: `${size}%`,
+            height: `${size}%`,
+          }}
+        ></div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { createContext, useContext, useState, type ReactNode } from 'react';
+
+export interface MixerChannel {
+  volume: number;
+  muted: boolean;
+}
+
+// The part of the mixer that outlives a session; solo is deliberately left out
+export interface MixerState {
+  channels: Record<string, MixerChannel>;
+  exclusive: boolean;
+  sinkId: string;
+}
+
+interface AudioMixerValue {
+  exclusive: boolean;
+  soloKey: string | null;
+  sinkId: string;
+  channels: Record<string, MixerChannel>;
+  channel: (streamKey: string) => MixerChannel;
+  // What the tile should actually do once solo is taken into account
+  isAudible: (streamKey: string) => boolean;
+  setExclusive: (exclusive: boolean) => void;
+  setMuted: (streamKey: string, muted: boolean) => void;
+  setVolume: (streamKey: string, volume: number) => void;
+  toggleSolo: (streamKey: string) => void;
+  setSinkId: (sinkId: string) => void;
+  // Applies saved or shared channels over the current ones
+  restoreChannels: (channels: Record<string, MixerChannel>) => void;
+}
+
+// Tiles start muted so autoplay isn't blocked
+const DEFAULT_CHANNEL: MixerChannel = { volume: 1, muted: true };
+
+const AudioMixerContext = createContext<AudioMixerValue | null>(null);
+
+export const supportsSinkSelection = () =>
+  typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+
+interface AudioMixerProviderProps {
+  initialState?: MixerState;
+  children: ReactNode;
+}
+
+export function AudioMixerProvider({ initialState, children }: AudioMixerProviderProps) {
+  const [channels, setChannels] = useState<Record<string, MixerChannel>>(initialState?.channels ?? {});
+  const [exclusive, setExclusiveState] = useState(initialState?.exclusive ?? false);
+  const [soloKey, setSoloKey] = useState<string | null>(null);
+  const [sinkId, setSinkId] = useState(initialState?.sinkId ?? '');
+
+  const channel = (streamKey: string) => channels[streamKey] ?? DEFAULT_CHANNEL;
+
+  const isAudible = (streamKey: string) =>
+    soloKey !== null ? soloKey === streamKey : !channel(streamKey).muted;
+
+  const updateChannel = (streamKey: string, update: Partial<MixerChannel>) => {
+    setChannels(prev => ({
+      ...prev,
+      [streamKey]: { ...(prev[streamKey] ?? DEFAULT_CHANNEL), ...update },
+    }));
+  };
+
+  const muteAllExcept = (prev: Record<string, MixerChannel>, streamKey: string | null) =>
+    Object.fromEntries(
+      Object.entries(prev).map(([key, ch]) => [key, key === streamKey ? ch : { ...ch, muted: true }]),
+    );
+
+  const setMuted = (streamKey: string, muted: boolean) => {
+    if (!muted && exclusive) {
+      setChannels(prev => ({
+        ...muteAllExcept(prev, null),
+        [streamKey]: { ...(prev[streamKey] ?? DEFAULT_CHANNEL), muted: false },
+      }));
+    } else {
+      updateChannel(streamKey, { muted });
+    }
+  };
+
+  const setExclusive = (value: boolean) => {
+    setExclusiveState(value);
+    if (value) {
+      // Keep the first audible stream, silence the rest
+      setChannels(prev => {
+        const keep = Object.keys(prev).find(key => !prev[key].muted) ?? null;
+        return muteAllExcept(prev, keep);
+      });
+    }
+  };
+
+  const restoreChannels = (restored: Record<string, MixerChannel>) => {
+    setChannels((prev) => {
+      const next = { ...prev, ...restored };
+      if (!exclusive) return next;
+      const keep = Object.keys(restored).find(key => !restored[key].muted)
+        ?? Object.keys(next).find(key => !next[key].muted)
+        ?? null;
+      return muteAllExcept(next, keep);
+    });
+  };
+
+  const toggleSolo = (streamKey: string) => {
+    setSoloKey(prev => (prev === streamKey ? null : streamKey));
+  };
+
+  return (
+    <AudioMixerContext.Provider
+      value={{
+        exclusive,
+        soloKey,
+        sinkId,
+        channels,
+        channel,
+        isAudible,
+        setExclusive,
+        setMuted,
+        setVolume: (streamKey, volume) => updateChannel(streamKey, { volume }),
+        toggleSolo,
+        setSinkId,
+        restoreChannels,
+      }}
+    >
+      {children}
+    </AudioMixerContext.Provider>
+  );
+}
+
+export function useAudioMixer() {
+  const mixer = useContext(AudioMixerContext);
+  if (!mixer) {
+    throw new Error('useAudioMixer must be used within an AudioMixerProvider');
+  }
+  return mixer;
+}
@@ -0,0 +1,74 @@
+import { createContext, useContext, useRef, useState, type ReactNode } from 'react';
+import { canvasToBlob, DEFAULT_SNAPSHOT_OPTIONS, type SnapshotOptions } from '../lib/snapshot';
+import { createZip } from '../lib/zip';
+import { downloadBlob, fileTimestamp, sanitizeFilename } from '../lib/download';
+
+// Returns null when the tile has no frame to give (not playing)
+type FrameGrabber = () => HTMLCanvasElement | null;
+
+interface SnapshotValue {
+  options: SnapshotOptions;
+  setOptions: (options: SnapshotOptions) => void;
+  // By stream id; the key names the file
+  register: (streamId: string, streamKey: string, grab: FrameGrabber) => () => void;
+  snapshotAll: () => Promise<number>;
+}
+
+const SnapshotContext = createContext<SnapshotValue | null>(null);
+
+interface SnapshotProviderProps {
+  initialOptions?: SnapshotOptions;
+  children: ReactNode;
+}
+
+export function SnapshotProvider({ initialOptions = DEFAULT_SNAPSHOT_OPTIONS, children }: SnapshotProviderProps) {
+  const [options, setOptions] = useState<SnapshotOptions>(initialOptions);
+  const grabbersRef = useRef(new Map<string, { streamKey: string; grab: FrameGrabber }>());
+
+  const register = (streamId: string, streamKey: string, grab: FrameGrabber) => {
+    const grabber = { streamKey, grab };
+    grabbersRef.current.set(streamId, grabber);
+    return () => {
+      if (grabbersRef.current.get(streamId) === grabber) {
+        grabbersRef.current.delete(streamId);
+      }
+    };
+  };
+
+  const snapshotAll = async () => {
+    const takenAt = new Date();
+    // Grab every frame first, encode afterwards, so all tiles show the same moment
+    const frames: [string, HTMLCanvasElement][] = [];
+    grabbersRef.current.forEach(({ streamKey, grab }) => {
+      try {
+        const canvas = grab();
+        if (canvas) frames.push([streamKey, canvas]);
+      } catch (err) {
+        console.warn(`Snapshot of ${streamKey} failed:`, err);
+      }
+    });
+    if (frames.length === 0) return 0;
+
+    const entries = await Promise.all(frames.map(async ([streamKey, canvas]) => ({
+      name: `${sanitizeFilename(streamKey)}.${options.format === 'jpeg' ? 'jpg' : 'png'}`,
+      data: await (await canvasToBlob(canvas, options.format)).arrayBuffer(),
+      modified: takenAt,
+    })));
+    downloadBlob(createZip(entries), `wall_${fileTimestamp(takenAt)}.zip`);
+    return entries.length;
+  };
+
+  return (
+    <SnapshotContext.Provider value={{ options, setOptions, register, snapshotAll }}>
+      {children}
+    </SnapshotContext.Provider>
+  );
+}
+
+export function useSnapshots() {
+  const snapshots = useContext(SnapshotContext);
+  if (!snapshots) {
+    throw new Error('useSnapshots must be used within a SnapshotProvider');
+  }
+  return snapshots;
+}
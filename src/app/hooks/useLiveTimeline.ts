@@ -0,0 +1,106 @@
+import { useState, useEffect, type RefObject } from 'react';
+import type { PlaybackEngine } from '../lib/playback/types';
+
+export interface LiveTimeline {
+  start: number;
+  end: number;
+  position: number;
+  behindLive: number;
+  isAtLive: boolean;
+}
+
+// How far behind the sync point still counts as "live"
+const LIVE_TOLERANCE = 2;
+
+const readTimeline = (video: HTMLVideoElement, engine: PlaybackEngine, dvrWindow: number): LiveTimeline | null => {
+  const range = engine.getLiveWindow();
+  if (!range) return null;
+
+  const { end, syncPosition } = range;
+  const { buffered } = video;
+  let { start } = range;
+
+  // Anything still held in the back buffer is seekable too, up to the DVR window
+  if (buffered.length > 0) {
+    start = Math.min(start, buffered.start(0));
+  }
+  start = Math.max(start, end - dvrWindow);
+
+  const position = video.currentTime;
+  return {
+    start,
+    end: Math.max(end, position),
+    position,
+    behindLive: Math.max(0, end - position),
+    isAtLive: position >= syncPosition - LIVE_TOLERANCE,
+  };
+};
+
+export function useLiveTimeline(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  engineRef: RefObject<PlaybackEngine | null>,
+  isActive: boolean,
+  dvrWindow: number,
+) {
+  const [timeline, setTimeline] = useState<LiveTimeline | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const handlePause = () => setIsPaused(true);
+    const handlePlay = () => setIsPaused(false);
+    video.addEventListener('pause', handlePause);
+    video.addEventListener('play', handlePlay);
+    return () => {
+      video.removeEventListener('pause', handlePause);
+      video.removeEventListener('play', handlePlay);
+    };
+  }, []);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    const engine = engineRef.current;
+    if (!video || !engine || !isActive) {
+      setTimeline(null);
+      return;
+    }
+
+    const update = () => setTimeline(readTimeline(video, engine, dvrWindow));
+    update();
+    const interval = setInterval(update, 500);
+    return () => clearInterval(interval);
+  }, [isActive, dvrWindow]);
+
+  const seek = (time: number) => {
+    const video = videoRef.current;
+    if (video) {
+      video.currentTime = time;
+    }
+  };
+
+  const goLive = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    const target = engineRef.current?.getLiveWindow()?.syncPosition ?? timeline?.end;
+    if (target !== undefined && target !== null) {
+      video.currentTime = target;
+    }
+    if (video.paused) {
+      video.play().catch((err) => console.warn('Resume failed:', err));
+    }
+  };
+
+  const togglePause = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) {
+      video.play().catch((err) => console.warn('Resume failed:', err));
+    } else {
+      video.pause();
+    }
+  };
+
+  return { timeline, isPaused, seek, goLive, togglePause };
+}
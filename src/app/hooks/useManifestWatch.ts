@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+import type { ManifestState } from '../lib/manifestProbe';
+import { probeStream } from '../lib/playback/engine';
+import type { StreamProtocol } from '../lib/playback/types';
+
+export const MANIFEST_POLL_INTERVAL = 5000;
+
+// Polls the manifest while a tile is parked in offline/ended so playback can
+// pick up on its own once the publisher comes online
+export function useManifestWatch(
+  url: string,
+  protocol: StreamProtocol,
+  isActive: boolean,
+  onState: (state: ManifestState) => void,
+  headers?: Record<string, string>,
+) {
+  const headersKey = JSON.stringify(headers ?? {});
+  const onStateRef = useRef(onState);
+  onStateRef.current = onState;
+
+  useEffect(() => {
+    if (!isActive || !url) return;
+
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        const state = await probeStream(protocol, url, controller.signal, headers);
+        onStateRef.current(state);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.warn('Manifest poll failed:', err);
+      }
+      if (!controller.signal.aborted) {
+        timer = setTimeout(poll, MANIFEST_POLL_INTERVAL);
+      }
+    };
+
+    timer = setTimeout(poll, MANIFEST_POLL_INTERVAL);
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [url, protocol, isActive, headersKey]);
+}
@@ -0,0 +1,49 @@
+import { useState, useEffect, type RefObject } from 'react';
+
+export function usePictureInPicture(videoRef: RefObject<HTMLVideoElement | null>) {
+  const [isActive, setIsActive] = useState(false);
+  const isSupported = typeof document !== 'undefined' && document.pictureInPictureEnabled;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let wasPlaying = false;
+    const handleEnter = () => {
+      wasPlaying = !video.paused;
+      setIsActive(true);
+    };
+    const handleLeave = () => {
+      setIsActive(false);
+      // Closing the floating window pauses the video; a live tile should keep going
+      if (wasPlaying && video.paused) {
+        video.play().catch((err) => console.warn('Resume after PiP failed:', err));
+      }
+    };
+    video.addEventListener('enterpictureinpicture', handleEnter);
+    video.addEventListener('leavepictureinpicture', handleLeave);
+    return () => {
+      video.removeEventListener('enterpictureinpicture', handleEnter);
+      video.removeEventListener('leavepictureinpicture', handleLeave);
+      if (document.pictureInPictureElement === video) {
+        document.exitPictureInPicture().catch(() => {});
+      }
+    };
+  }, []);
+
+  const toggle = async () => {
+    const video = videoRef.current;
+    if (!video || !isSupported) return;
+    try {
+      if (document.pictureInPictureElement === video) {
+        await document.exitPictureInPicture();
+      } else {
+        await video.requestPictureInPicture();
+      }
+    } catch (err) {
+      console.warn('Picture-in-picture failed:', err);
+    }
+  };
+
+  return { isActive, isSupported, toggle };
+}
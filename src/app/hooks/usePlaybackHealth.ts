@@ -0,0 +1,91 @@
+import { useState, useEffect, useRef } from 'react';
+import type { PlaybackStats } from '../lib/playback/types';
+import { formatBitrate } from '../lib/format';
+
+export interface PlaybackHealth {
+  score: number;
+  reasons: string[];
+}
+
+const STALL_WINDOW_MS = 60_000;
+const FRAME_WINDOW_MS = 10_000;
+
+interface FrameSample {
+  at: number;
+  dropped: number;
+  decoded: number;
+}
+
+const scoreHealth = (stats: PlaybackStats, stalls: number, droppedRatio: number): PlaybackHealth => {
+  let score = 4;
+  const reasons: string[] = [];
+
+  if (stats.bandwidthEstimate !== null && stats.levelBitrate) {
+    const headroom = stats.bandwidthEstimate / stats.levelBitrate;
+    if (headroom < 1) {
+      score -= 2;
+      reasons.push(`Bandwidth ${formatBitrate(stats.bandwidthEstimate)} is below the ${formatBitrate(stats.levelBitrate)} stream`);
+    } else if (headroom < 1.5) {
+      score -= 1;
+      reasons.push(`Little bandwidth headroom (${headroom.toFixed(1)}× bitrate)`);
+    }
+  }
+
+  if (stalls >= 3) {
+    score -= 2;
+    reasons.push(`${stalls} stalls in the last minute`);
+  } else if (stalls > 0) {
+    score -= 1;
+    reasons.push(`${stalls} stall${stalls > 1 ? 's' : ''} in the last minute`);
+  }
+
+  if (stats.bufferLength !== null && stats.bufferLength < 1) {
+    score -= 1;
+    reasons.push(`Only ${stats.bufferLength.toFixed(1)}s buffered`);
+  }
+
+  if (droppedRatio > 0.1) {
+    score -= 2;
+    reasons.push(`${(droppedRatio * 100).toFixed(0)}% frames dropped`);
+  } else if (droppedRatio > 0.02) {
+    score -= 1;
+    reasons.push(`${(droppedRatio * 100).toFixed(1)}% frames dropped`);
+  }
+
+  return { score: Math.max(0, score), reasons };
+};
+
+export function usePlaybackHealth(stats: PlaybackStats | null, isBuffering: boolean) {
+  const stallsRef = useRef<number[]>([]);
+  const framesRef = useRef<FrameSample[]>([]);
+  const [health, setHealth] = useState<PlaybackHealth | null>(null);
+
+  useEffect(() => {
+    if (isBuffering) {
+      stallsRef.current.push(Date.now());
+    }
+  }, [isBuffering]);
+
+  useEffect(() => {
+    if (!stats) {
+      framesRef.current = [];
+      setHealth(null);
+      return;
+    }
+
+    const now = Date.now();
+    stallsRef.current = stallsRef.current.filter(t => now - t < STALL_WINDOW_MS);
+
+    // Score dropped frames over a recent window, not since the tile attached
+    const frames = framesRef.current.filter(f => now - f.at < FRAME_WINDOW_MS);
+    frames.push({ at: now, dropped: stats.droppedFrames, decoded: stats.decodedFrames });
+    framesRef.current = frames;
+    const oldest = frames[0];
+    const decoded = stats.decodedFrames - oldest.decoded;
+    const droppedRatio = decoded > 0 ? (stats.droppedFrames - oldest.dropped) / decoded : 0;
+
+    setHealth(scoreHealth(stats, stallsRef.current.length, droppedRatio));
+  }, [stats]);
+
+  return health;
+}
@@ -0,0 +1,21 @@
+import { useState, useEffect, type RefObject } from 'react';
+import type { PlaybackEngine, PlaybackStats } from '../lib/playback/types';
+
+export function usePlaybackStats(engineRef: RefObject<PlaybackEngine | null>, isActive: boolean) {
+  const [stats, setStats] = useState<PlaybackStats | null>(null);
+
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine || !isActive) {
+      setStats(null);
+      return;
+    }
+
+    const update = () => setStats(engine.getStats());
+    update();
+    const interval = setInterval(update, 1000);
+    return () => clearInterval(interval);
+  }, [isActive]);
+
+  return stats;
+}
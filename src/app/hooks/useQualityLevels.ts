@@ -0,0 +1,86 @@
+import { useState, useEffect, type RefObject } from 'react';
+import type { PlaybackEngine, QualityLevel } from '../lib/playback/types';
+
+// Level indexes shift when a server adds or drops a variant, so remember the
+// rendition itself rather than its position
+interface StoredQuality {
+  height: number;
+  bitrate: number;
+}
+
+const storageKey = (streamKey: string) => `decod-live:quality:${streamKey}`;
+
+const loadStoredQuality = (streamKey: string): StoredQuality | null => {
+  try {
+    const raw = localStorage.getItem(storageKey(streamKey));
+    return raw ? (JSON.parse(raw) as StoredQuality) : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveStoredQuality = (streamKey: string, quality: StoredQuality | null) => {
+  try {
+    if (quality) {
+      localStorage.setItem(storageKey(streamKey), JSON.stringify(quality));
+    } else {
+      localStorage.removeItem(storageKey(streamKey));
+    }
+  } catch (err) {
+    console.warn('Failed to persist quality choice:', err);
+  }
+};
+
+const findStoredLevel = (levels: QualityLevel[], stored: StoredQuality) =>
+  levels.find(l => l.height === stored.height && l.bitrate === stored.bitrate)
+    ?? levels.find(l => l.height === stored.height)
+    ?? null;
+
+export function useQualityLevels(engineRef: RefObject<PlaybackEngine | null>, streamKey: string, isActive: boolean) {
+  const [levels, setLevels] = useState<QualityLevel[]>([]);
+  const [currentLevel, setCurrentLevel] = useState(-1);
+  const [isAuto, setIsAuto] = useState(true);
+
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine || !isActive) {
+      setLevels([]);
+      setCurrentLevel(-1);
+      return;
+    }
+
+    const available = engine.getLevels();
+    setLevels(available);
+
+    const stored = loadStoredQuality(streamKey);
+    const restored = stored ? findStoredLevel(available, stored) : null;
+    if (restored) {
+      engine.setLevel(restored.index);
+    }
+    setIsAuto(engine.isAutoLevel());
+    setCurrentLevel(engine.getCurrentLevel());
+
+    return engine.subscribe((event) => {
+      if (event.type === 'levelSwitched') {
+        setCurrentLevel(event.level);
+      }
+    });
+  }, [isActive, streamKey]);
+
+  const selectLevel = (index: number) => {
+    const engine = engineRef.current;
+    if (!engine) return;
+
+    // -1 hands control back to ABR
+    engine.setLevel(index);
+    setIsAuto(index === -1);
+    if (index !== -1) {
+      setCurrentLevel(index);
+    }
+
+    const level = levels.find(l => l.index === index);
+    saveStoredQuality(streamKey, level ? { height: level.height, bitrate: level.bitrate } : null);
+  };
+
+  return { levels, currentLevel, isAuto, selectLevel };
+}
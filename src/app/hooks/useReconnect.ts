@@ -0,0 +1,119 @@
+import { useState, useEffect, useRef } from 'react';
+
+export interface ReconnectPolicy {
+  baseDelay: number;
+  maxDelay: number;
+  // Fraction of the delay randomised either way so ten tiles don't retry in lockstep
+  jitter: number;
+  maxAttempts: number;
+  // After this many failed in-place recoveries, tear down and rebuild the player
+  reinstantiateAfter: number;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  baseDelay: 1000,
+  maxDelay: 30000,
+  jitter: 0.3,
+  maxAttempts: 10,
+  reinstantiateAfter: 3,
+};
+
+export interface ReconnectState {
+  attempt: number;
+  retryAt: number | null;
+  isRetrying: boolean;
+  exhausted: boolean;
+}
+
+const IDLE: ReconnectState = { attempt: 0, retryAt: null, isRetrying: false, exhausted: false };
+
+export const backoffDelay = (policy: ReconnectPolicy, attempt: number) => {
+  const exponential = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  const spread = exponential * policy.jitter;
+  return Math.round(exponential - spread + Math.random() * spread * 2);
+};
+
+export function useReconnect(policy: ReconnectPolicy, onReinstantiate: () => void) {
+  const [state, setState] = useState<ReconnectState>(IDLE);
+  const attemptRef = useRef(0);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingRef = useRef<(() => void) | null>(null);
+  const cancelledRef = useRef(false);
+  const policyRef = useRef(policy);
+  const reinstantiateRef = useRef(onReinstantiate);
+  policyRef.current = policy;
+  reinstantiateRef.current = onReinstantiate;
+
+  const clearTimer = () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const run = () => {
+    clearTimer();
+    const recover = pendingRef.current;
+    pendingRef.current = null;
+    setState(s => ({ ...s, retryAt: null, isRetrying: true }));
+
+    if (attemptRef.current > policyRef.current.reinstantiateAfter || !recover) {
+      reinstantiateRef.current();
+    } else {
+      recover();
+    }
+  };
+
+  // Queue a recovery attempt; escalates to a full rebuild once in-place
+  // recovery has failed often enough, or straight away if there is no
+  // in-place recovery to try
+  const schedule = (recover?: () => void) => {
+    if (timerRef.current || cancelledRef.current) return;
+
+    const p = policyRef.current;
+    const attempt = attemptRef.current + 1;
+    if (attempt > p.maxAttempts) {
+      setState({ attempt: attemptRef.current, retryAt: null, isRetrying: false, exhausted: true });
+      return;
+    }
+
+    attemptRef.current = attempt;
+    pendingRef.current = recover ?? null;
+    const delay = backoffDelay(p, attempt);
+    timerRef.current = setTimeout(run, delay);
+    setState({ attempt, retryAt: Date.now() + delay, isRetrying: false, exhausted: false });
+  };
+
+  const retryNow = () => {
+    if (timerRef.current) {
+      run();
+    } else {
+      // Cancelled or exhausted: start a fresh cycle with a clean player
+      cancelledRef.current = false;
+      attemptRef.current = 0;
+      setState(IDLE);
+      reinstantiateRef.current();
+    }
+  };
+
+  const cancel = () => {
+    cancelledRef.current = true;
+    clearTimer();
+    pendingRef.current = null;
+    setState(s => ({ ...s, retryAt: null, isRetrying: false }));
+  };
+
+  const reset = () => {
+    cancelledRef.current = false;
+    clearTimer();
+    pendingRef.current = null;
+    if (attemptRef.current !== 0) {
+      attemptRef.current = 0;
+      setState(IDLE);
+    }
+  };
+
+  useEffect(() => clearTimer, []);
+
+  return { ...state, maxAttempts: policy.maxAttempts, schedule, retryNow, cancel, reset };
+}
@@ -0,0 +1,106 @@
+import { useState, useEffect, useRef, type RefObject } from 'react';
+import { downloadBlob, fileTimestamp, sanitizeFilename } from '../lib/download';
+import { captureMediaStream } from '../lib/mediaCapture';
+
+const MIME_CANDIDATES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+const pickMimeType = () =>
+  MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+export function useRecorder(videoRef: RefObject<HTMLVideoElement | null>, streamKey: string) {
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [size, setSize] = useState(0);
+  const [error, setError] = useState('');
+
+  const isSupported = typeof MediaRecorder !== 'undefined';
+
+  const start = () => {
+    const video = videoRef.current;
+    if (!video || recorderRef.current) return;
+
+    const stream = captureMediaStream(video);
+    if (!stream || !isSupported) {
+      setError('Recording not supported in this browser');
+      return;
+    }
+
+    const mimeType = pickMimeType();
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    } catch (err) {
+      console.error('Failed to start recording:', err);
+      setError('Failed to start recording');
+      return;
+    }
+
+    const startedAt = new Date();
+    const chunks: Blob[] = [];
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) {
+        chunks.push(e.data);
+        setSize(s => s + e.data.size);
+      }
+    };
+
+    // Fires on explicit stop, on unmount and when the captured tracks end,
+    // so whatever was captured always reaches the operator
+    recorder.onstop = () => {
+      recorderRef.current = null;
+      setIsRecording(false);
+      if (chunks.length > 0) {
+        const blob = new Blob(chunks, { type: recorder.mimeType || 'video/webm' });
+        downloadBlob(blob, `${sanitizeFilename(streamKey)}_${fileTimestamp(startedAt)}.webm`);
+      }
+    };
+
+    recorder.onerror = (e) => {
+      console.error('Recording error:', e);
+      setError('Recording error');
+    };
+
+    // Emit a chunk every second so the size counter keeps moving
+    recorder.start(1000);
+    recorderRef.current = recorder;
+    setError('');
+    setElapsed(0);
+    setSize(0);
+    setIsRecording(true);
+  };
+
+  const stop = () => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+  };
+
+  const toggle = () => {
+    if (recorderRef.current) {
+      stop();
+    } else {
+      start();
+    }
+  };
+
+  useEffect(() => {
+    if (isRecording) {
+      const interval = setInterval(() => {
+        setElapsed(t => t + 1);
+      }, 1000);
+      return () => clearInterval(interval);
+    }
+  }, [isRecording]);
+
+  // Don't lose footage when the tile is removed mid-recording
+  useEffect(() => stop, []);
+
+  return { isRecording, elapsed, size, error, isSupported, toggle };
+}
@@ -0,0 +1,61 @@
+import { useState, useEffect, useRef } from 'react';
+import type { CapturedSegment, SegmentTap } from '../lib/segmentTap';
+import { concatSegments, segmentExtension } from '../lib/segmentExport';
+import { downloadBlob, fileTimestamp, sanitizeFilename } from '../lib/download';
+
+export const REPLAY_BUFFER_OPTIONS = [30, 60, 120, 300];
+export const DEFAULT_REPLAY_BUFFER = 60;
+// The quick "save last" clip
+export const REPLAY_CLIP_SECONDS = 60;
+
+const totalDuration = (segments: CapturedSegment[]) =>
+  segments.reduce((sum, s) => sum + s.duration, 0);
+
+// Prefer the encoder's wall clock; fall back to when we downloaded the segment
+const segmentStart = (segment: CapturedSegment) =>
+  segment.programDateTime ?? segment.capturedAt - segment.duration * 1000;
+
+export function useReplayBuffer(segmentTap: SegmentTap, streamKey: string) {
+  const segmentsRef = useRef<CapturedSegment[]>([]);
+  const [bufferSeconds, setBufferSeconds] = useState(DEFAULT_REPLAY_BUFFER);
+  const [bufferedSeconds, setBufferedSeconds] = useState(0);
+  const bufferSecondsRef = useRef(bufferSeconds);
+  bufferSecondsRef.current = bufferSeconds;
+
+  useEffect(() => {
+    segmentsRef.current = [];
+    setBufferedSeconds(0);
+
+    return segmentTap.subscribe((segment) => {
+      const segments = segmentsRef.current;
+      segments.push(segment);
+      // Drop from the front while the rest still covers the window
+      while (segments.length > 1 && totalDuration(segments) - segments[0].duration >= bufferSecondsRef.current) {
+        segments.shift();
+      }
+      setBufferedSeconds(totalDuration(segments));
+    });
+  }, [segmentTap, streamKey]);
+
+  const saveLast = (seconds: number) => {
+    const segments = segmentsRef.current;
+    if (segments.length === 0) return;
+
+    let index = segments.length - 1;
+    let covered = segments[index].duration;
+    while (index > 0 && covered < seconds) {
+      index--;
+      covered += segments[index].duration;
+    }
+
+    const clip = segments.slice(index);
+    const first = clip[0];
+    const last = clip[clip.length - 1];
+    const startedAt = new Date(segmentStart(first));
+    const endedAt = new Date(segmentStart(last) + last.duration * 1000);
+    const filename = `${sanitizeFilename(streamKey)}_${fileTimestamp(startedAt)}-${fileTimestamp(endedAt)}.${segmentExtension(clip)}`;
+    downloadBlob(concatSegments(clip), filename);
+  };
+
+  return { bufferSeconds, setBufferSeconds, bufferedSeconds, saveLast };
+}
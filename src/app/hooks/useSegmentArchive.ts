@@ -0,0 +1,71 @@
+import { useState, useEffect, useRef } from 'react';
+import type { CapturedSegment, SegmentTap } from '../lib/segmentTap';
+import { buildSegmentZip, concatSegments, segmentExtension } from '../lib/segmentExport';
+import { downloadBlob, fileTimestamp, sanitizeFilename } from '../lib/download';
+
+export type ArchiveFormat = 'zip' | 'concat';
+
+// Segments stay in memory until the download, so capture stops well short of
+// what a tab can hold, and of the ZIP limits (65535 files, 4 GiB)
+export const ARCHIVE_MAX_BYTES = 1024 ** 3;
+export const ARCHIVE_MAX_SEGMENTS = 20000;
+
+export function useSegmentArchive(segmentTap: SegmentTap, streamKey: string) {
+  const segmentsRef = useRef<CapturedSegment[]>([]);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+  const bytesRef = useRef(0);
+  const startedAtRef = useRef(new Date());
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [segmentCount, setSegmentCount] = useState(0);
+  const [size, setSize] = useState(0);
+  const [limitReached, setLimitReached] = useState(false);
+
+  const start = () => {
+    if (unsubscribeRef.current) return;
+    segmentsRef.current = [];
+    bytesRef.current = 0;
+    startedAtRef.current = new Date();
+    setSegmentCount(0);
+    setSize(0);
+    setLimitReached(false);
+    const unsubscribe = segmentTap.subscribe((segment) => {
+      const bytes = segment.data.byteLength;
+      if (segmentsRef.current.length >= ARCHIVE_MAX_SEGMENTS || bytesRef.current + bytes > ARCHIVE_MAX_BYTES) {
+        // Stop taking segments; what's been captured waits for the download
+        unsubscribe();
+        setLimitReached(true);
+        console.warn(`Raw archive of ${streamKey} reached its limit; stop it to download`);
+        return;
+      }
+      segmentsRef.current.push(segment);
+      bytesRef.current += bytes;
+      setSegmentCount(c => c + 1);
+      setSize(s => s + bytes);
+    });
+    unsubscribeRef.current = unsubscribe;
+    setIsArchiving(true);
+  };
+
+  const stop = (format: ArchiveFormat) => {
+    if (!unsubscribeRef.current) return;
+    unsubscribeRef.current();
+    unsubscribeRef.current = null;
+    setIsArchiving(false);
+
+    const segments = segmentsRef.current;
+    segmentsRef.current = [];
+    if (segments.length === 0) return;
+
+    const baseName = `${sanitizeFilename(streamKey)}_${fileTimestamp(startedAtRef.current)}_raw`;
+    if (format === 'zip') {
+      downloadBlob(buildSegmentZip(segments), `${baseName}.zip`);
+    } else {
+      downloadBlob(concatSegments(segments), `${baseName}.${segmentExtension(segments)}`);
+    }
+  };
+
+  // Flush whatever was archived if the tile goes away mid-capture
+  useEffect(() => () => stop('zip'), []);
+
+  return { isArchiving, segmentCount, size, limitReached, start, stop };
+}
@@ -0,0 +1,33 @@
+import { useState, useEffect, type RefObject } from 'react';
+import type { PlaybackEngine } from '../lib/playback/types';
+
+export interface WallClock {
+  // Capture time of the frame on screen, from EXT-X-PROGRAM-DATE-TIME
+  playingDate: Date;
+  // Glass-to-glass delay; only meaningful when encoder and viewer clocks are in sync
+  latency: number;
+}
+
+export function useWallClock(engineRef: RefObject<PlaybackEngine | null>, isActive: boolean) {
+  const [clock, setClock] = useState<WallClock | null>(null);
+
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine || !isActive) {
+      setClock(null);
+      return;
+    }
+
+    const update = () => {
+      const playingDate = engine.getPlayingDate();
+      setClock(playingDate
+        ? { playingDate, latency: (Date.now() - playingDate.getTime()) / 1000 }
+        : null);
+    };
+    update();
+    const interval = setInterval(update, 500);
+    return () => clearInterval(interval);
+  }, [isActive]);
+
+  return clock;
+}
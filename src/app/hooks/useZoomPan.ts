@@ -0,0 +1,91 @@
+import { useState, useEffect, useRef, type RefObject, type PointerEvent } from 'react';
+import { NO_ZOOM, panBy, zoomAt, type ZoomRegion } from '../lib/zoom';
+
+// Controls laid over the video shouldn't start a pan
+const isControl = (target: EventTarget) =>
+  target instanceof Element && target.closest('button, input, a, [role="menu"]') !== null;
+
+// How long the ctrl+wheel hint stays up after a plain scroll over the tile
+const WHEEL_HINT_MS = 1500;
+
+export function useZoomPan(containerRef: RefObject<HTMLElement | null>) {
+  const [region, setRegion] = useState<ZoomRegion>(NO_ZOOM);
+  const [showWheelHint, setShowWheelHint] = useState(false);
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const regionRef = useRef(region);
+  regionRef.current = region;
+
+  const toLocal = (clientX: number, clientY: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: (clientX - rect.left) / rect.width, y: (clientY - rect.top) / rect.height };
+  };
+
+  // React's onWheel is passive, so preventDefault needs a native listener
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let hintTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const handleWheel = (e: WheelEvent) => {
+      // Plain scrolling over an unzoomed tile still scrolls the wall, with a
+      // hint on how to zoom instead; trackpad pinches arrive as ctrl+wheel
+      if (!e.ctrlKey && !e.metaKey && regionRef.current.scale === 1) {
+        setShowWheelHint(true);
+        clearTimeout(hintTimer);
+        hintTimer = setTimeout(() => setShowWheelHint(false), WHEEL_HINT_MS);
+        return;
+      }
+      e.preventDefault();
+      setShowWheelHint(false);
+      const { x, y } = toLocal(e.clientX, e.clientY);
+      setRegion(r => zoomAt(r, r.scale * Math.exp(-e.deltaY * 0.002), x, y));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => {
+      clearTimeout(hintTimer);
+      container.removeEventListener('wheel', handleWheel);
+    };
+  }, []);
+
+  const onPointerDown = (e: PointerEvent<HTMLElement>) => {
+    if (isControl(e.target)) return;
+    pointersRef.current.set(e.pointerId, toLocal(e.clientX, e.clientY));
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const onPointerMove = (e: PointerEvent<HTMLElement>) => {
+    const pointers = pointersRef.current;
+    const prev = pointers.get(e.pointerId);
+    if (!prev) return;
+    const next = toLocal(e.clientX, e.clientY);
+
+    if (pointers.size === 1) {
+      setRegion(r => (r.scale > 1 ? panBy(r, next.x - prev.x, next.y - prev.y) : r));
+    } else if (pointers.size === 2) {
+      // Pinch: scale by the change in finger distance around their midpoint
+      const other = [...pointers.entries()].find(([id]) => id !== e.pointerId)![1];
+      const before = Math.hypot(prev.x - other.x, prev.y - other.y);
+      const after = Math.hypot(next.x - other.x, next.y - other.y);
+      if (before > 0) {
+        const midX = (next.x + other.x) / 2;
+        const midY = (next.y + other.y) / 2;
+        setRegion(r => zoomAt(r, r.scale * (after / before), midX, midY));
+      }
+    }
+    pointers.set(e.pointerId, next);
+  };
+
+  const onPointerUp = (e: PointerEvent<HTMLElement>) => {
+    pointersRef.current.delete(e.pointerId);
+  };
+
+  const reset = () => setRegion(NO_ZOOM);
+
+  return {
+    region,
+    showWheelHint,
+    reset,
+    handlers: { onPointerDown, onPointerMove, onPointerUp, onPointerCancel: onPointerUp },
+  };
+}
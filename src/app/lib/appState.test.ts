@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { APP_STATE_VERSION, MAX_STREAMS, SAMPLE_PRESET, migrateAppState, normalizeAppState, normalizeStream } from './appState';
+
+describe('normalizeStream', () => {
+  it('keeps a known protocol', () => {
+    expect(normalizeStream({ key: 'a', protocol: 'dash' })?.protocol).toBe('dash');
+  });
+
+  it('drops protocols inherited from Object.prototype', () => {
+    expect(normalizeStream({ key: 'a', protocol: 'toString' })?.protocol).toBeUndefined();
+    expect(normalizeStream({ key: 'a', protocol: 'constructor' })?.protocol).toBeUndefined();
+  });
+});
+
+describe('migrateAppState', () => {
+  const v1 = {
+    streams: [{ id: 's1', key: 'drone1', serverId: 'default' }],
+    settings: { dvrWindow: 120, maxRetries: 5 },
+  };
+
+  it('walks a version 1 state through every step', () => {
+    const state = migrateAppState(1, v1);
+    expect(state.layout).toEqual({ columns: 4 });
+    expect(state.presets).toEqual([SAMPLE_PRESET]);
+    expect(state.streams.map(s => s.key)).toEqual(['drone1']);
+    expect(state.settings).toEqual({ dvrWindow: 120, maxRetries: 5 });
+  });
+
+  it('keeps the layout a version 2 state already has', () => {
+    const state = migrateAppState(2, { ...v1, layout: { columns: 2 } });
+    expect(state.layout).toEqual({ columns: 2 });
+    expect(state.presets).toEqual([SAMPLE_PRESET]);
+  });
+
+  it('leaves a current state as it is', () => {
+    const state = migrateAppState(APP_STATE_VERSION, { ...v1, layout: { columns: 'auto' }, presets: [] });
+    expect(state.layout).toEqual({ columns: 'auto' });
+    expect(state.presets).toEqual([]);
+  });
+
+  it('refuses unknown and newer versions', () => {
+    expect(() => migrateAppState(0, v1)).toThrow(/Unknown state version/);
+    expect(() => migrateAppState(1.5, v1)).toThrow(/Unknown state version/);
+    expect(() => migrateAppState(APP_STATE_VERSION + 1, v1)).toThrow(/newer than this app/);
+  });
+});
+
+describe('normalizeAppState', () => {
+  it('drops malformed and duplicate streams and caps the wall', () => {
+    const streams = [
+      null,
+      'drone1',
+      { key: '  ' },
+      { key: 'a' },
+      { key: 'a', label: 'again' },
+      ...Array.from({ length: MAX_STREAMS + 2 }, (_, i) => ({ key: `k${i}` })),
+    ];
+    const state = normalizeAppState({ streams });
+    expect(state.streams).toHaveLength(MAX_STREAMS);
+    expect(state.streams[0]).toMatchObject({ key: 'a', label: undefined });
+  });
+
+  it('defaults everything for a state that is not one', () => {
+    const state = normalizeAppState({ streams: 'x', profiles: {}, layout: [], presets: null, mixer: 1 });
+    expect(state.streams).toEqual([]);
+    expect(state.profiles).toHaveLength(1);
+    expect(state.layout).toEqual({ columns: 'auto' });
+    expect(state.mixer).toEqual({ channels: {}, exclusive: false, sinkId: '' });
+  });
+
+  it('keeps a __proto__ channel as plain data', () => {
+    const raw = JSON.parse('{"mixer":{"channels":{"__proto__":{"volume":0.5,"muted":false}}}}');
+    const state = normalizeAppState(raw);
+    expect(Object.getPrototypeOf(state.mixer.channels)).toBe(Object.prototype);
+    expect(({} as Record<string, unknown>).muted).toBeUndefined();
+  });
+});
@@ -0,0 +1,232 @@
+import type { MixerChannel, MixerState } from '../context/AudioMixerContext';
+import { DEFAULT_RECONNECT_POLICY } from '../hooks/useReconnect';
+import type { StreamProtocol } from './playback/types';
+import { DEFAULT_SERVER_ID, DEFAULT_SERVER_PROFILE, normalizeServerProfile, type ServerProfile } from './serverProfile';
+import { DEFAULT_SNAPSHOT_OPTIONS, type SnapshotOptions } from './snapshot';
+import { DEFAULT_URL_TEMPLATES } from './urlTemplate';
+
+export interface Stream {
+  id: string;
+  key: string;
+  // Display name, e.g. from an imported playlist; the key is shown when absent
+  label?: string;
+  protocol?: StreamProtocol;
+  serverId: string;
+  isPinned?: boolean;
+}
+
+export interface AppSettings {
+  dvrWindow: number;
+  maxRetries: number;
+}
+
+// Grid columns on wide screens; auto sizes the grid to the stream count
+export type WallColumns = 'auto' | 1 | 2 | 3 | 4;
+
+export interface WallLayout {
+  columns: WallColumns;
+}
+
+// A stream as a preset remembers it; ids are handed out when it's loaded
+export type PresetStream = Omit<Stream, 'id' | 'isPinned'>;
+
+export interface Preset {
+  id: string;
+  name: string;
+  streams: PresetStream[];
+  layout: WallLayout;
+}
+
+export interface AppState {
+  streams: Stream[];
+  profiles: ServerProfile[];
+  layout: WallLayout;
+  presets: Preset[];
+  settings: AppSettings;
+  snapshot: SnapshotOptions;
+  mixer: MixerState;
+}
+
+export const MAX_STREAMS = 10;
+
+// The feeds "Load All Streams" used to bring up, kept as a starting preset
+export const SAMPLE_PRESET: Preset = {
+  id: 'sample-feeds',
+  name: 'Sample feeds',
+  streams: ['drone1', 'drone2', 'drone3', 'drone4', 'test1', 'test2', 'test3', 'test4', 'stream1', 'stream2']
+    .map(key => ({ key, serverId: DEFAULT_SERVER_ID })),
+  layout: { columns: 'auto' },
+};
+
+export const DEFAULT_APP_STATE: AppState = {
+  streams: [],
+  profiles: [DEFAULT_SERVER_PROFILE],
+  layout: { columns: 'auto' },
+  presets: [SAMPLE_PRESET],
+  settings: { dvrWindow: 300, maxRetries: DEFAULT_RECONNECT_POLICY.maxAttempts },
+  snapshot: DEFAULT_SNAPSHOT_OPTIONS,
+  mixer: { channels: {}, exclusive: false, sinkId: '' },
+};
+
+// Bump whenever AppState changes shape, and add the step that upgrades the
+// previous version to MIGRATIONS
+export const APP_STATE_VERSION = 3;
+
+type StoredState = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version n + 1 state to version n + 2
+const MIGRATIONS: ((state: StoredState) => StoredState)[] = [
+  // 1 → 2: wall layout; existing walls keep the four-column grid they had
+  (state) => ({ ...state, layout: { columns: 4 } }),
+  // 2 → 3: user presets, seeded with the list that used to be hard-coded
+  (state) => ({ ...state, presets: [SAMPLE_PRESET] }),
+];
+
+const STORAGE_PREFIX = 'decod-live:';
+const STORAGE_KEY = `${STORAGE_PREFIX}app-state`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Own keys only; `in` would also let through inherited names like toString
+export const isProtocol = (value: unknown): value is StreamProtocol =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(DEFAULT_URL_TEMPLATES, value);
+
+const positive = (value: unknown, fallback: number, min: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min ? value : fallback;
+
+export const normalizeStream = (raw: unknown): Stream | null => {
+  if (!isRecord(raw) || typeof raw.key !== 'string' || !raw.key.trim()) return null;
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : `${Date.now()}_${raw.key}`,
+    key: raw.key.trim(),
+    label: typeof raw.label === 'string' && raw.label.trim() ? raw.label.trim() : undefined,
+    protocol: isProtocol(raw.protocol) ? raw.protocol : undefined,
+    serverId: typeof raw.serverId === 'string' ? raw.serverId : DEFAULT_SERVER_ID,
+    isPinned: raw.isPinned === true || undefined,
+  };
+};
+
+export const normalizeChannel = (raw: unknown): MixerChannel | null =>
+  isRecord(raw) && typeof raw.volume === 'number' && typeof raw.muted === 'boolean'
+    ? { volume: Math.min(1, Math.max(0, raw.volume)), muted: raw.muted }
+    : null;
+
+export const normalizeLayout = (raw: unknown): WallLayout => {
+  const columns = isRecord(raw) ? raw.columns : undefined;
+  return { columns: columns === 1 || columns === 2 || columns === 3 || columns === 4 ? columns : 'auto' };
+};
+
+export const normalizePreset = (raw: unknown): Preset | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !raw.id) return null;
+  const streams: PresetStream[] = [];
+  (Array.isArray(raw.streams) ? raw.streams : []).forEach((item) => {
+    const stream = normalizeStream(item);
+    if (stream && streams.length < MAX_STREAMS && !streams.some(s => s.key === stream.key)) {
+      streams.push({ key: stream.key, label: stream.label, protocol: stream.protocol, serverId: stream.serverId });
+    }
+  });
+  return {
+    id: raw.id,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Preset',
+    streams,
+    layout: normalizeLayout(raw.layout),
+  };
+};
+
+// Rebuilds a current-version state from untrusted JSON, dropping whatever
+// doesn't fit and defaulting the rest
+export const normalizeAppState = (raw: StoredState): AppState => {
+  const profiles = (Array.isArray(raw.profiles) ? raw.profiles : [])
+    .map(normalizeServerProfile)
+    .filter((p): p is ServerProfile => p !== null);
+
+  // Keys identify tiles (mixer, snapshots), so keep the first of any duplicates
+  const streams: Stream[] = [];
+  (Array.isArray(raw.streams) ? raw.streams : []).forEach((item) => {
+    const stream = normalizeStream(item);
+    if (stream && streams.length < MAX_STREAMS && !streams.some(s => s.key === stream.key)) {
+      streams.push(stream);
+    }
+  });
+
+  const settings = isRecord(raw.settings) ? raw.settings : {};
+  const snapshot = isRecord(raw.snapshot) ? raw.snapshot : {};
+  const mixer = isRecord(raw.mixer) ? raw.mixer : {};
+  const channels = isRecord(mixer.channels) ? mixer.channels : {};
+
+  return {
+    streams,
+    profiles: profiles.length > 0 ? profiles : DEFAULT_APP_STATE.profiles,
+    layout: normalizeLayout(raw.layout),
+    // An empty list is a choice; only a missing one gets the defaults
+    presets: Array.isArray(raw.presets)
+      ? raw.presets.map(normalizePreset).filter((p): p is Preset => p !== null)
+      : DEFAULT_APP_STATE.presets,
+    settings: {
+      dvrWindow: positive(settings.dvrWindow, DEFAULT_APP_STATE.settings.dvrWindow, 30),
+      maxRetries: positive(settings.maxRetries, DEFAULT_APP_STATE.settings.maxRetries, 1),
+    },
+    snapshot: {
+      format: snapshot.format === 'jpeg' ? 'jpeg' : 'png',
+      burnIn: typeof snapshot.burnIn === 'boolean' ? snapshot.burnIn : DEFAULT_SNAPSHOT_OPTIONS.burnIn,
+      note: typeof snapshot.note === 'string' ? snapshot.note : '',
+    },
+    mixer: {
+      channels: Object.fromEntries(
+        Object.entries(channels)
+          .map(([key, channel]) => [key, normalizeChannel(channel)] as const)
+          .filter((entry): entry is [string, MixerChannel] => entry[1] !== null),
+      ),
+      exclusive: mixer.exclusive === true,
+      sinkId: typeof mixer.sinkId === 'string' ? mixer.sinkId : '',
+    },
+  };
+};
+
+// Walks a stored state of any older version up to the current one. Throws on
+// a state written by a newer build, which this one can't safely interpret.
+export const migrateAppState = (version: number, state: StoredState): AppState => {
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Unknown state version: ${version}`);
+  }
+  if (version > APP_STATE_VERSION) {
+    throw new Error(`State version ${version} is newer than this app (${APP_STATE_VERSION})`);
+  }
+  const migrated = MIGRATIONS.slice(version - 1).reduce((current, migrate) => migrate(current), state);
+  return normalizeAppState(migrated);
+};
+
+export const loadAppState = (): AppState => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_APP_STATE;
+    const stored: unknown = JSON.parse(raw);
+    if (!isRecord(stored) || typeof stored.version !== 'number' || !isRecord(stored.state)) {
+      throw new Error('Malformed saved state');
+    }
+    return migrateAppState(stored.version, stored.state);
+  } catch (err) {
+    console.warn('Ignoring saved app state:', err);
+    return DEFAULT_APP_STATE;
+  }
+};
+
+export const saveAppState = (state: AppState) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: APP_STATE_VERSION, state }));
+  } catch (err) {
+    console.warn('Failed to persist app state:', err);
+  }
+};
+
+// Forgets the wall, settings and every per-stream preference (e.g. quality)
+export const clearAppState = () => {
+  try {
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(STORAGE_PREFIX))
+      .forEach(key => localStorage.removeItem(key));
+  } catch (err) {
+    console.warn('Failed to clear saved state:', err);
+  }
+};
@@ -0,0 +1,32 @@
+// One context for the whole wall: browsers cap how many can be open at once
+let context: AudioContext | null = null;
+let outputDevice = '';
+
+const applyOutputDevice = () => {
+  context?.setSinkId?.(outputDevice).catch((err) => console.warn('Failed to switch audio output:', err));
+};
+
+export const getAudioContext = () => {
+  if (!context) {
+    context = new AudioContext();
+    if (outputDevice) applyOutputDevice();
+    // Autoplay policy keeps the context suspended until the user interacts
+    if (context.state === 'suspended') {
+      const resume = () => {
+        context?.resume().catch(() => {});
+        document.removeEventListener('pointerdown', resume);
+        document.removeEventListener('keydown', resume);
+      };
+      document.addEventListener('pointerdown', resume);
+      document.addEventListener('keydown', resume);
+    }
+  }
+  return context;
+};
+
+// Tiles whose audio runs through the context play on its device, not the element's
+export const setAudioOutputDevice = (sinkId: string) => {
+  if (sinkId === outputDevice) return;
+  outputDevice = sinkId;
+  applyOutputDevice();
+};
@@ -0,0 +1,66 @@
+import { getAudioContext } from './audioContext';
+
+// A tile's audio routed through Web Audio: the analyser sees the signal before
+// the tile's volume and mute, which live on the output gain from then on
+export interface AudioTap {
+  analyser: AnalyserNode;
+  output: GainNode;
+}
+
+// An element can only become a source node once, so its tap lasts as long as it does
+const taps = new WeakMap<HTMLMediaElement, AudioTap>();
+
+export const getAudioTap = (media: HTMLMediaElement): AudioTap => {
+  const existing = taps.get(media);
+  if (existing) return existing;
+
+  const context = getAudioContext();
+  const source = context.createMediaElementSource(media);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  const output = context.createGain();
+  output.gain.value = media.muted ? 0 : media.volume;
+  source.connect(analyser);
+  analyser.connect(output);
+  output.connect(context.destination);
+
+  media.muted = false;
+  media.volume = 1;
+  const tap = { analyser, output };
+  taps.set(media, tap);
+  return tap;
+};
+
+// Applies a tile's volume and mute: on the tap once there is one, otherwise on the element
+export const setMediaOutput = (media: HTMLMediaElement, volume: number, muted: boolean) => {
+  const tap = taps.get(media);
+  if (tap) {
+    media.muted = false;
+    media.volume = 1;
+    tap.output.gain.value = muted ? 0 : volume;
+  } else {
+    media.muted = muted;
+    media.volume = volume;
+  }
+};
+
+// One animation frame loop drives every meter on the wall
+const frameListeners = new Set<(now: number) => void>();
+let frame = 0;
+
+const tick = (now: number) => {
+  frameListeners.forEach(listener => listener(now));
+  frame = frameListeners.size > 0 ? requestAnimationFrame(tick) : 0;
+};
+
+export const onMeterFrame = (listener: (now: number) => void) => {
+  frameListeners.add(listener);
+  if (!frame) frame = requestAnimationFrame(tick);
+  return () => {
+    frameListeners.delete(listener);
+    if (frameListeners.size === 0 && frame) {
+      cancelAnimationFrame(frame);
+      frame = 0;
+    }
+  };
+};
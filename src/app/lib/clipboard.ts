@@ -0,0 +1,36 @@
+const copyWithTextarea = (text: string) => {
+  // Create temporary textarea
+  const textarea = document.createElement('textarea');
+  textarea.value = text;
+  textarea.style.position = 'fixed';
+  textarea.style.left = '-999999px';
+  textarea.style.top = '-999999px';
+  document.body.appendChild(textarea);
+
+  // Select and copy
+  textarea.focus();
+  textarea.select();
+
+  try {
+    return document.execCommand('copy');
+  } catch (err) {
+    console.error('Fallback copy failed:', err);
+    return false;
+  } finally {
+    document.body.removeChild(textarea);
+  }
+};
+
+// Resolves to whether the text made it onto the clipboard
+export const copyText = async (text: string) => {
+  try {
+    // Try modern Clipboard API first
+    if (navigator.clipboard && navigator.clipboard.writeText) {
+      await navigator.clipboard.writeText(text);
+      return true;
+    }
+  } catch {
+    // Blocked in this context (e.g. insecure origin or iframe); fall through
+  }
+  return copyWithTextarea(text);
+};
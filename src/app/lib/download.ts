@@ -0,0 +1,19 @@
+import { format } from 'date-fns';
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Stream keys are user input, so strip anything a filesystem might choke on
+export const sanitizeFilename = (name: string) =>
+  name.replace(/[^a-zA-Z0-9._-]+/g, '_').replace(/^_+|_+$/g, '') || 'stream';
+
+export const fileTimestamp = (date: Date) => format(date, "yyyyMMdd'T'HHmmss");
@@ -0,0 +1,12 @@
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+export const formatBitrate = (bitsPerSecond: number) => {
+  if (bitsPerSecond < 1000) return `${Math.round(bitsPerSecond)} bps`;
+  if (bitsPerSecond < 1000 * 1000) return `${Math.round(bitsPerSecond / 1000)} kbps`;
+  return `${(bitsPerSecond / (1000 * 1000)).toFixed(1)} Mbps`;
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parseM3u } from './m3u';
+
+describe('parseM3u', () => {
+  it('reads URLs with their titles and line numbers', () => {
+    const text = [
+      '#EXTM3U',
+      '#EXTINF:-1 tvg-name="North, gate" group-title="Drones",Drone 1',
+      'https://host/live/drone1.m3u8',
+      '',
+      '# a comment',
+      'https://host/live/drone2.m3u8',
+      '#EXTINF:-1,',
+      'https://host/live/drone3.m3u8',
+    ].join('\r\n');
+    expect(parseM3u(text)).toEqual([
+      { url: 'https://host/live/drone1.m3u8', title: 'Drone 1', line: 3 },
+      { url: 'https://host/live/drone2.m3u8', title: undefined, line: 6 },
+      { url: 'https://host/live/drone3.m3u8', title: undefined, line: 8 },
+    ]);
+  });
+
+  it('reads a plain list of URLs', () => {
+    expect(parseM3u('http://a/1.flv\nhttp://a/2.flv\n').map(e => e.url)).toEqual(['http://a/1.flv', 'http://a/2.flv']);
+  });
+
+  it('refuses an HLS playlist', () => {
+    expect(() => parseM3u('#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=1\nlow.m3u8')).toThrow(/HLS playlist/);
+    expect(() => parseM3u('#EXTM3U\n#EXT-X-TARGETDURATION:2\n#EXTINF:2,\nseg1.ts')).toThrow(/HLS playlist/);
+  });
+});
@@ -0,0 +1,38 @@
+export interface M3uEntry {
+  url: string;
+  // The display name after the comma in #EXTINF, when there is one
+  title?: string;
+  line: number;
+}
+
+// Tags that only appear in HLS playlists, which list variants or segments of
+// one stream rather than separate streams
+const HLS_TAGS = /^#EXT-X-(STREAM-INF|TARGETDURATION|MEDIA-SEQUENCE)/;
+
+// Reads an extended (or plain) M3U list of stream URLs
+export const parseM3u = (text: string): M3uEntry[] => {
+  const entries: M3uEntry[] = [];
+  let title: string | undefined;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+
+    if (HLS_TAGS.test(line)) {
+      throw new Error('This is an HLS playlist for a single stream, not a list of streams');
+    }
+    if (line.startsWith('#EXTINF:')) {
+      // Attributes may hold quoted commas, so the title starts after the last quote
+      const afterAttributes = line.slice(Math.max(line.lastIndexOf('"'), 0));
+      const comma = afterAttributes.indexOf(',');
+      title = comma >= 0 ? afterAttributes.slice(comma + 1).trim() || undefined : undefined;
+      return;
+    }
+    if (line.startsWith('#')) return;
+
+    entries.push({ url: line, title, line: index + 1 });
+    title = undefined;
+  });
+
+  return entries;
+};
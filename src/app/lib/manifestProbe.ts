@@ -0,0 +1,72 @@
+export type ManifestState = 'missing' | 'empty' | 'live' | 'ended';
+
+const fetchPlaylist = async (url: string, signal?: AbortSignal, headers?: HeadersInit) => {
+  const response = await fetch(url, { cache: 'no-store', signal, headers });
+  if (response.status === 404 || response.status === 410) return null;
+  if (!response.ok) {
+    throw new Error(`Manifest request failed (${response.status})`);
+  }
+  return response.text();
+};
+
+// First media playlist URI listed after an EXT-X-STREAM-INF tag
+const firstVariantUrl = (master: string, baseUrl: string) => {
+  const lines = master.split(/\r?\n/).map(l => l.trim());
+  const index = lines.findIndex(l => l.startsWith('#EXT-X-STREAM-INF'));
+  const uri = lines.slice(index + 1).find(l => l.length > 0 && !l.startsWith('#'));
+  return uri ? new URL(uri, baseUrl).toString() : null;
+};
+
+// Cheap check of whether a publisher is live, without spinning up a player.
+// Throws on network/CORS failures so callers can tell them apart from "not published".
+export const probeManifest = async (url: string, signal?: AbortSignal, headers?: HeadersInit): Promise<ManifestState> => {
+  let playlist = await fetchPlaylist(url, signal, headers);
+  if (playlist === null) return 'missing';
+
+  if (playlist.includes('#EXT-X-STREAM-INF')) {
+    const variantUrl = firstVariantUrl(playlist, url);
+    if (!variantUrl) return 'empty';
+    playlist = await fetchPlaylist(variantUrl, signal, headers);
+    if (playlist === null) return 'missing';
+  }
+
+  if (!playlist.includes('#EXTINF')) return 'empty';
+  return playlist.includes('#EXT-X-ENDLIST') ? 'ended' : 'live';
+};
+
+// DASH counterpart: a dynamic MPD is live, a static one means the publisher
+// finished (or the server only has the recording)
+export const probeDashManifest = async (url: string, signal?: AbortSignal, headers?: HeadersInit): Promise<ManifestState> => {
+  const mpd = await fetchPlaylist(url, signal, headers);
+  if (mpd === null) return 'missing';
+
+  if (!/<Representation[\s>]/.test(mpd)) return 'empty';
+  return /<MPD[^>]*\btype=["']static["']/.test(mpd) ? 'ended' : 'live';
+};
+
+// Progressive streams (HTTP-FLV, MPEG-TS) have no manifest and their body
+// never ends, so only look at the status line and drop the connection
+export const probeHttpStream = async (url: string, signal?: AbortSignal, headers?: HeadersInit): Promise<ManifestState> => {
+  const response = await fetch(url, { cache: 'no-store', signal, headers });
+  response.body?.cancel().catch(() => {});
+  if (response.status === 404 || response.status === 410) return 'missing';
+  if (!response.ok) {
+    throw new Error(`Stream request failed (${response.status})`);
+  }
+  return 'live';
+};
+
+// WHEP has no manifest either; OPTIONS is the one request the spec lets a
+// client make without opening a session. Servers that answer it without
+// looking up the path read as live, and the engine's 404 on the offer takes
+// the tile back offline.
+export const probeWhepEndpoint = async (url: string, signal?: AbortSignal, headers?: HeadersInit): Promise<ManifestState> => {
+  const response = await fetch(url, { method: 'OPTIONS', cache: 'no-store', signal, headers });
+  if (response.status === 404 || response.status === 410) return 'missing';
+  // No OPTIONS support: only an offer can tell
+  if (response.status === 405 || response.status === 501) return 'live';
+  if (!response.ok) {
+    throw new Error(`WHEP endpoint request failed (${response.status})`);
+  }
+  return 'live';
+};
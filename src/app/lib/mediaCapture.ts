@@ -0,0 +1,16 @@
+// Firefox only has the prefixed mozCaptureStream, which takes over the element's
+// output and silences the tile, so it isn't used
+export const captureMediaStream = (media: HTMLMediaElement) => {
+  if (media.captureStream) return media.captureStream();
+  return null;
+};
+
+// Whether the page may read the element's pixels and samples (snapshots, audio
+// meter). MSE and WebRTC sources always can; a plain URL only when it's same
+// origin or loaded with CORS.
+export const isMediaReadable = (media: HTMLMediaElement) => {
+  if (media.srcObject || media.crossOrigin !== null) return true;
+  if (!media.currentSrc) return false;
+  const url = new URL(media.currentSrc, window.location.href);
+  return url.protocol === 'blob:' || url.origin === window.location.origin;
+};
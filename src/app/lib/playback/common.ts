@@ -0,0 +1,85 @@
+import type { LiveWindow, PlaybackError, PlaybackEvent, PlaybackListener, PlaybackStats, StreamStatus } from './types';
+
+// Listener set plus the last reported status, so engines only report changes
+// and "progress" can lift a tile out of buffering/error on its own
+export function createPlaybackEvents() {
+  const listeners = new Set<PlaybackListener>();
+  let status: StreamStatus = 'idle';
+
+  const emit = (event: PlaybackEvent) => {
+    listeners.forEach(listener => listener(event));
+  };
+
+  const setStatus = (next: StreamStatus, error?: PlaybackError) => {
+    if (next === status && next !== 'error') return;
+    status = next;
+    emit({ type: 'status', status: next, error });
+  };
+
+  const progress = () => {
+    if (status === 'buffering' || status === 'error') {
+      setStatus('playing');
+    }
+    emit({ type: 'progress' });
+  };
+
+  const subscribe = (listener: PlaybackListener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    emit,
+    setStatus,
+    progress,
+    subscribe,
+    getStatus: () => status,
+    clear: () => listeners.clear(),
+  };
+}
+
+export const startPlayback = (video: HTMLVideoElement) => {
+  video.play().catch((err) => console.warn('Autoplay failed:', err));
+};
+
+const bufferAhead = (video: HTMLVideoElement) => {
+  const { buffered, currentTime } = video;
+  for (let i = 0; i < buffered.length; i++) {
+    if (currentTime >= buffered.start(i) && currentTime <= buffered.end(i)) {
+      return buffered.end(i) - currentTime;
+    }
+  }
+  return 0;
+};
+
+// Stats every engine reads straight off the element; engines fill in the rest
+export const readMediaStats = (video: HTMLVideoElement): PlaybackStats => {
+  const quality = video.getVideoPlaybackQuality?.();
+  return {
+    width: video.videoWidth,
+    height: video.videoHeight,
+    levelBitrate: null,
+    bandwidthEstimate: null,
+    bufferLength: bufferAhead(video),
+    latency: null,
+    droppedFrames: quality?.droppedVideoFrames ?? 0,
+    decodedFrames: quality?.totalVideoFrames ?? 0,
+    videoCodec: null,
+    audioCodec: null,
+    segmentDuration: null,
+  };
+};
+
+export const seekableWindow = (video: HTMLVideoElement): LiveWindow | null => {
+  const { seekable } = video;
+  if (seekable.length === 0) return null;
+  const end = seekable.end(seekable.length - 1);
+  return { start: seekable.start(0), end, syncPosition: end };
+};
+
+export const seekableLatency = (video: HTMLVideoElement) => {
+  const range = seekableWindow(video);
+  return range ? range.end - video.currentTime : null;
+};
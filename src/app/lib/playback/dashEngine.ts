@@ -0,0 +1,199 @@
+import {
+  MediaPlayer,
+  type ErrorEvent,
+  type QualityChangeRenderedEvent,
+  type Representation,
+} from 'dashjs';
+import { probeDashManifest } from '../manifestProbe';
+import { createPlaybackEvents, readMediaStats, seekableWindow, startPlayback } from './common';
+import type { PlaybackEngine, PlaybackError } from './types';
+
+export interface DashEngineOptions {
+  backBufferLength: number;
+  headers: Record<string, string>;
+}
+
+const { events: DashEvents, errors: DashErrors } = MediaPlayer;
+
+const MANIFEST_ERRORS = new Set<number>([
+  DashErrors.MANIFEST_LOADER_LOADING_FAILURE_ERROR_CODE,
+  DashErrors.DOWNLOAD_ERROR_ID_MANIFEST_CODE,
+]);
+
+const MEDIA_ERRORS = new Set<number>([
+  DashErrors.APPEND_ERROR_CODE,
+  DashErrors.CAPABILITY_MEDIASOURCE_ERROR_CODE,
+  DashErrors.MEDIASOURCE_TYPE_UNSUPPORTED_CODE,
+]);
+
+const NETWORK_ERRORS = new Set<number>([
+  DashErrors.FRAGMENT_LOADER_LOADING_FAILURE_ERROR_CODE,
+  DashErrors.DOWNLOAD_ERROR_ID_CONTENT_CODE,
+  DashErrors.DOWNLOAD_ERROR_ID_INITIALIZATION_CODE,
+]);
+
+const errorCode = (event: ErrorEvent) =>
+  typeof event.error === 'object' && event.error !== null && 'code' in event.error
+    ? (event.error.code as number)
+    : null;
+
+// dash.js over MSE. Levels are the video representations of the active period,
+// indexed in the order dash.js lists them.
+export function createDashEngine(video: HTMLVideoElement, options: DashEngineOptions): PlaybackEngine {
+  const events = createPlaybackEvents();
+  const player = MediaPlayer().create();
+  const probe = new AbortController();
+  let url = '';
+  let isReady = false;
+
+  player.updateSettings({
+    streaming: {
+      buffer: { bufferToKeep: options.backBufferLength },
+      abr: { autoSwitchBitrate: { video: true } },
+    },
+  });
+  player.addRequestInterceptor(async (request) => {
+    request.headers = { ...request.headers, ...options.headers };
+    return request;
+  });
+
+  const videoRepresentations = (): Representation[] =>
+    isReady ? player.getRepresentationsByType('video') : [];
+
+  const representationIndex = (representation: Representation | null) =>
+    representation ? videoRepresentations().findIndex(r => r.id === representation.id) : -1;
+
+  const fail = (error: PlaybackError) => {
+    player.reset();
+    events.setStatus('error', error);
+  };
+
+  // dash.js doesn't surface the HTTP status of a failed manifest request, so
+  // ask the server directly, as the native HLS path does
+  const handleManifestFailure = () => {
+    probeDashManifest(url, probe.signal, options.headers)
+      .then((state) => {
+        if (state === 'live') {
+          fail({ message: 'Network Error' });
+          return;
+        }
+        player.reset();
+        events.setStatus(state === 'ended' ? 'ended' : 'offline');
+      })
+      .catch(() => {
+        if (probe.signal.aborted) return;
+        fail({ message: 'CORS or Connection Error' });
+      });
+  };
+
+  const handleError = (event: ErrorEvent) => {
+    console.warn('DASH error:', event);
+    const code = errorCode(event);
+
+    if (code !== null && MANIFEST_ERRORS.has(code)) {
+      handleManifestFailure();
+    } else if (code !== null && NETWORK_ERRORS.has(code)) {
+      fail({ message: 'Network Error' });
+    } else if (code !== null && MEDIA_ERRORS.has(code)) {
+      fail({ message: 'Media Error' });
+    } else {
+      fail({ message: 'Stream Error' });
+    }
+  };
+
+  player.on(DashEvents.STREAM_INITIALIZED, () => {
+    isReady = true;
+    events.setStatus('playing');
+    startPlayback(video);
+  });
+
+  player.on(DashEvents.ERROR, handleError);
+
+  player.on(DashEvents.PLAYBACK_ERROR, () => fail({ message: 'Media Error' }));
+
+  player.on(DashEvents.PLAYBACK_WAITING, () => {
+    if (events.getStatus() === 'playing') {
+      events.setStatus('buffering');
+    }
+  });
+
+  player.on(DashEvents.FRAGMENT_LOADING_COMPLETED, () => events.progress());
+
+  player.on(DashEvents.PLAYBACK_ENDED, () => events.setStatus('ended'));
+
+  player.on(DashEvents.QUALITY_CHANGE_RENDERED, (event: QualityChangeRenderedEvent) => {
+    if (event.mediaType === 'video') {
+      events.emit({ type: 'levelSwitched', level: representationIndex(event.newRepresentation) });
+    }
+  });
+
+  return {
+    name: 'dash.js',
+    capturesSegments: false,
+
+    load: (streamUrl) => {
+      url = streamUrl;
+      events.setStatus('loading');
+      player.initialize(video, streamUrl, false);
+    },
+
+    destroy: () => {
+      events.clear();
+      probe.abort();
+      player.destroy();
+    },
+
+    subscribe: events.subscribe,
+
+    getStats: () => {
+      const stats = readMediaStats(video);
+      if (!isReady) return stats;
+
+      const videoRep = player.getCurrentRepresentationForType('video');
+      const audioRep = player.getCurrentRepresentationForType('audio');
+      const throughput = player.getAverageThroughput('video');
+      const latency = player.isDynamic() ? player.getCurrentLiveLatency() : NaN;
+      return {
+        ...stats,
+        levelBitrate: videoRep?.bandwidth || null,
+        // dash.js reports throughput in kbit/s
+        bandwidthEstimate: Number.isFinite(throughput) && throughput > 0 ? throughput * 1000 : null,
+        latency: Number.isFinite(latency) ? latency : null,
+        videoCodec: videoRep?.codecs ?? null,
+        audioCodec: audioRep?.codecs ?? null,
+        segmentDuration: videoRep?.fragmentDuration ?? null,
+      };
+    },
+
+    getLevels: () => videoRepresentations().map((representation, index) => ({
+      index,
+      width: representation.width,
+      height: representation.height,
+      bitrate: representation.bandwidth,
+    })),
+
+    getCurrentLevel: () =>
+      isReady ? representationIndex(player.getCurrentRepresentationForType('video')) : -1,
+
+    isAutoLevel: () => player.getSettings().streaming?.abr?.autoSwitchBitrate?.video ?? true,
+
+    setLevel: (index) => {
+      player.updateSettings({ streaming: { abr: { autoSwitchBitrate: { video: index === -1 } } } });
+      if (index !== -1) {
+        player.setRepresentationForTypeByIndex('video', index, true);
+      }
+    },
+
+    getLiveWindow: () => {
+      if (!isReady || !player.isDynamic()) return seekableWindow(video);
+      const { start, end } = player.getDvrWindow();
+      return { start, end, syncPosition: end - player.getTargetLiveDelay() };
+    },
+
+    getPlayingDate: () => (isReady && player.isDynamic() ? new Date(player.timeAsUTC() * 1000) : null),
+
+    setBackBuffer: (seconds) => {
+      player.updateSettings({ streaming: { buffer: { bufferToKeep: seconds } } });
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import Hls from 'hls.js';
+import { supportsMediaSource } from 'dashjs';
+import mpegts from 'mpegts.js';
+import type { SegmentTap } from '../segmentTap';
+import { probeDashManifest, probeHttpStream, probeManifest, probeWhepEndpoint, type ManifestState } from '../manifestProbe';
+import { createDashEngine } from './dashEngine';
+import { createHlsEngine } from './hlsEngine';
+import { createMpegtsEngine } from './mpegtsEngine';
+import { createNativeEngine } from './nativeEngine';
+import { createWhepEngine } from './whepEngine';
+import type { PlaybackEngine, StreamProtocol } from './types';
+
+export const PROTOCOL_LABELS: Record<StreamProtocol, string> = {
+  hls: 'HLS',
+  dash: 'MPEG-DASH',
+  flv: 'HTTP-FLV',
+  mpegts: 'MPEG-TS (HTTP)',
+  whep: 'WebRTC (WHEP)',
+};
+
+export interface EngineOptions {
+  protocol: StreamProtocol;
+  dvrWindow: number;
+  segmentTap?: SegmentTap;
+  // Sent with every request the engine makes (auth); the native player can't send any
+  headers?: Record<string, string>;
+}
+
+// Picks the engine for this protocol and browser, or null when the stream can't be played here
+export const createPlaybackEngine = (video: HTMLVideoElement, options: EngineOptions): PlaybackEngine | null => {
+  const { protocol, dvrWindow, segmentTap, headers = {} } = options;
+
+  if (protocol === 'whep') {
+    return typeof RTCPeerConnection === 'undefined' ? null : createWhepEngine(video, { headers });
+  }
+  if (protocol === 'dash') {
+    return supportsMediaSource() ? createDashEngine(video, { backBufferLength: dvrWindow, headers }) : null;
+  }
+  if (protocol === 'flv' || protocol === 'mpegts') {
+    return mpegts.getFeatureList().mseLivePlayback
+      ? createMpegtsEngine(video, { type: protocol, backBufferLength: dvrWindow, headers })
+      : null;
+  }
+
+  if (Hls.isSupported()) {
+    return createHlsEngine(video, { backBufferLength: dvrWindow, segmentTap, headers });
+  }
+  if (video.canPlayType('application/vnd.apple.mpegurl')) {
+    return createNativeEngine(video);
+  }
+  return null;
+};
+
+export const probeStream = (
+  protocol: StreamProtocol,
+  url: string,
+  signal?: AbortSignal,
+  headers?: Record<string, string>,
+): Promise<ManifestState> => {
+  switch (protocol) {
+    case 'whep':
+      return probeWhepEndpoint(url, signal, headers);
+    case 'dash':
+      return probeDashManifest(url, signal, headers);
+    case 'flv':
+    case 'mpegts':
+      return probeHttpStream(url, signal, headers);
+    default:
+      return probeManifest(url, signal, headers);
+  }
+};
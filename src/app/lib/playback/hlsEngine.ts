@@ -0,0 +1,144 @@
+import Hls, { type BufferCodecsData, type ErrorData, type LevelSwitchedData } from 'hls.js';
+import type { SegmentTap } from '../segmentTap';
+import { createPlaybackEvents, readMediaStats, seekableWindow, startPlayback } from './common';
+import type { PlaybackEngine } from './types';
+
+export interface HlsEngineOptions {
+  backBufferLength: number;
+  segmentTap?: SegmentTap;
+  headers: Record<string, string>;
+}
+
+export function createHlsEngine(video: HTMLVideoElement, options: HlsEngineOptions): PlaybackEngine {
+  const events = createPlaybackEvents();
+  const hls = new Hls({
+    enableWorker: true,
+    lowLatencyMode: true,
+    fLoader: options.segmentTap?.loader,
+    backBufferLength: options.backBufferLength,
+    xhrSetup: (xhr) => {
+      Object.entries(options.headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    },
+  });
+  options.segmentTap?.attach(hls);
+
+  // Manifests without CODECS attributes only reveal them once the buffer is set up
+  const codecs: { video: string | null; audio: string | null } = { video: null, audio: null };
+
+  hls.on(Hls.Events.MANIFEST_PARSED, () => {
+    events.setStatus('playing');
+    startPlayback(video);
+  });
+
+  hls.on(Hls.Events.ERROR, (_event, data: ErrorData) => {
+    console.warn('HLS error:', data);
+
+    if (!data.fatal) {
+      if (data.details === Hls.ErrorDetails.BUFFER_STALLED_ERROR) {
+        events.setStatus('buffering');
+      }
+      return;
+    }
+
+    switch (data.type) {
+      case Hls.ErrorTypes.NETWORK_ERROR:
+        // Nothing published yet: stop polling and let the caller watch the manifest
+        if (data.response?.code === 404 || data.details === Hls.ErrorDetails.LEVEL_EMPTY_ERROR) {
+          hls.stopLoad();
+          events.setStatus('offline');
+          break;
+        }
+        events.setStatus('error', {
+          message: data.response?.code ? 'Network Error' : 'CORS or Connection Error',
+          recover: () => hls.startLoad(),
+        });
+        break;
+      case Hls.ErrorTypes.MEDIA_ERROR:
+        events.setStatus('error', { message: 'Media Error', recover: () => hls.recoverMediaError() });
+        break;
+      default:
+        events.setStatus('error', { message: 'Stream Error' });
+        break;
+    }
+  });
+
+  hls.on(Hls.Events.FRAG_BUFFERED, () => events.progress());
+
+  hls.on(Hls.Events.LEVEL_SWITCHED, (_event, data: LevelSwitchedData) => {
+    events.emit({ type: 'levelSwitched', level: data.level });
+  });
+
+  hls.on(Hls.Events.BUFFER_CODECS, (_event, { tracks }: BufferCodecsData) => {
+    codecs.video = tracks?.video?.codec ?? tracks?.audiovideo?.codec ?? codecs.video;
+    codecs.audio = tracks?.audio?.codec ?? codecs.audio;
+  });
+
+  const handleEnded = () => events.setStatus('ended');
+  video.addEventListener('ended', handleEnded);
+
+  return {
+    name: 'hls.js',
+    capturesSegments: !!options.segmentTap,
+
+    load: (url) => {
+      events.setStatus('loading');
+      hls.loadSource(url);
+      hls.attachMedia(video);
+    },
+
+    destroy: () => {
+      events.clear();
+      video.removeEventListener('ended', handleEnded);
+      hls.destroy();
+    },
+
+    subscribe: events.subscribe,
+
+    getStats: () => {
+      const level = hls.currentLevel >= 0 ? hls.levels[hls.currentLevel] : null;
+      const details = hls.latestLevelDetails;
+      return {
+        ...readMediaStats(video),
+        // Single-variant playlists don't advertise BANDWIDTH, so fall back to the measured rate
+        levelBitrate: level ? level.bitrate || level.realBitrate || null : null,
+        bandwidthEstimate: Number.isFinite(hls.bandwidthEstimate) ? hls.bandwidthEstimate : null,
+        latency: Number.isFinite(hls.latency) ? hls.latency : null,
+        videoCodec: level?.videoCodec ?? codecs.video,
+        audioCodec: level?.audioCodec ?? codecs.audio,
+        segmentDuration: details ? details.averagetargetduration ?? details.targetduration : null,
+      };
+    },
+
+    getLevels: () => hls.levels.map((level, index) => ({
+      index,
+      width: level.width,
+      height: level.height,
+      bitrate: level.bitrate,
+    })),
+
+    getCurrentLevel: () => hls.currentLevel,
+
+    isAutoLevel: () => hls.autoLevelEnabled,
+
+    setLevel: (index) => {
+      hls.currentLevel = index;
+    },
+
+    getLiveWindow: () => {
+      const details = hls.latestLevelDetails;
+      if (!details) return seekableWindow(video);
+      return {
+        start: details.fragmentStart,
+        end: details.edge,
+        syncPosition: hls.liveSyncPosition ?? details.edge,
+      };
+    },
+
+    getPlayingDate: () => hls.playingDate,
+
+    // hls.js reads this on every back-buffer flush, so no reload is needed
+    setBackBuffer: (seconds) => {
+      hls.config.backBufferLength = seconds;
+    },
+  };
+}
@@ -0,0 +1,164 @@
+import mpegts from 'mpegts.js';
+import { createPlaybackEvents, readMediaStats, startPlayback } from './common';
+import type { PlaybackEngine } from './types';
+
+export interface MpegtsEngineOptions {
+  // 'flv' for HTTP-FLV, 'mpegts' for MPEG-TS over HTTP
+  type: 'flv' | 'mpegts';
+  backBufferLength: number;
+  headers: Record<string, string>;
+}
+
+// How long the picture may stand still before the tile shows buffering, and
+// before the connection is written off and rebuilt
+const STALL_THRESHOLD = 2000;
+const STALL_TIMEOUT = 8000;
+const WATCHDOG_INTERVAL = 500;
+
+// Remuxes a progressive HTTP stream into MSE with mpegts.js. The server just
+// stops sending when it has trouble, so a watchdog on the playhead stands in
+// for the stall errors HLS players raise.
+export function createMpegtsEngine(video: HTMLVideoElement, options: MpegtsEngineOptions): PlaybackEngine {
+  const events = createPlaybackEvents();
+  let player: ReturnType<typeof mpegts.createPlayer> | null = null;
+  let watchdog: ReturnType<typeof setInterval> | undefined;
+  let lastProgress = { time: 0, at: 0 };
+  // Set until the playhead first moves, and again after each stall
+  let isStalled = true;
+
+  const stopWatchdog = () => clearInterval(watchdog);
+
+  const checkStall = () => {
+    const now = Date.now();
+    if (video.paused || video.currentTime !== lastProgress.time) {
+      if (isStalled && !video.paused) {
+        isStalled = false;
+        events.progress();
+      }
+      lastProgress = { time: video.currentTime, at: now };
+      return;
+    }
+
+    const stalledFor = now - lastProgress.at;
+    if (stalledFor >= STALL_THRESHOLD) {
+      isStalled = true;
+    }
+    if (stalledFor >= STALL_TIMEOUT) {
+      stopWatchdog();
+      player?.unload();
+      events.setStatus('error', { message: 'Stream Stalled' });
+    } else if (stalledFor >= STALL_THRESHOLD && events.getStatus() === 'playing') {
+      events.setStatus('buffering');
+    }
+  };
+
+  const handleError = (errorType: string, detail: string, info?: { code?: number }) => {
+    console.warn('MPEG-TS/FLV error:', errorType, detail, info);
+    stopWatchdog();
+    player?.unload();
+
+    if (errorType === mpegts.ErrorTypes.NETWORK_ERROR) {
+      // Nothing published on this key yet
+      if (detail === mpegts.ErrorDetails.NETWORK_STATUS_CODE_INVALID && (info?.code === 404 || info?.code === 410)) {
+        events.setStatus('offline');
+      } else if (detail === mpegts.ErrorDetails.NETWORK_EXCEPTION) {
+        events.setStatus('error', { message: 'CORS or Connection Error' });
+      } else {
+        events.setStatus('error', { message: 'Network Error' });
+      }
+    } else if (errorType === mpegts.ErrorTypes.MEDIA_ERROR) {
+      events.setStatus('error', { message: 'Media Error' });
+    } else {
+      events.setStatus('error', { message: 'Stream Error' });
+    }
+  };
+
+  // A live response only ends when the publisher stops
+  const handleLoadingComplete = () => {
+    stopWatchdog();
+    events.setStatus('ended');
+  };
+
+  const handleLoadedMetadata = () => {
+    events.setStatus('playing');
+    startPlayback(video);
+    lastProgress = { time: video.currentTime, at: Date.now() };
+    // loadedmetadata fires again whenever the element reloads; one watchdog only
+    stopWatchdog();
+    watchdog = setInterval(checkStall, WATCHDOG_INTERVAL);
+  };
+
+  return {
+    name: 'mpegts.js',
+    capturesSegments: false,
+
+    load: (url) => {
+      events.setStatus('loading');
+      player = mpegts.createPlayer(
+        { type: options.type, url, isLive: true },
+        {
+          enableWorker: true,
+          enableStashBuffer: false,
+          liveBufferLatencyChasing: true,
+          autoCleanupSourceBuffer: true,
+          autoCleanupMaxBackwardDuration: options.backBufferLength,
+          autoCleanupMinBackwardDuration: Math.max(10, options.backBufferLength / 2),
+          headers: options.headers,
+        },
+      );
+      player.on(mpegts.Events.ERROR, handleError);
+      player.on(mpegts.Events.LOADING_COMPLETE, handleLoadingComplete);
+      video.addEventListener('loadedmetadata', handleLoadedMetadata);
+      player.attachMediaElement(video);
+      player.load();
+    },
+
+    destroy: () => {
+      events.clear();
+      stopWatchdog();
+      video.removeEventListener('loadedmetadata', handleLoadedMetadata);
+      if (player) {
+        player.off(mpegts.Events.ERROR, handleError);
+        player.off(mpegts.Events.LOADING_COMPLETE, handleLoadingComplete);
+        player.unload();
+        player.detachMediaElement();
+        player.destroy();
+        player = null;
+      }
+    },
+
+    subscribe: events.subscribe,
+
+    getStats: () => {
+      const stats = readMediaStats(video);
+      if (!player) return stats;
+
+      const mediaInfo = player.mediaInfo as { videoCodec?: string; audioCodec?: string };
+      const { speed } = player.statisticsInfo as { speed?: number };
+      // Latency stays null: a progressive stream carries no wall clock to
+      // measure it against, and the buffer depth is already bufferLength
+      return {
+        ...stats,
+        // A live push arrives at its own bitrate, so the download rate is the stream rate
+        levelBitrate: speed ? speed * 1024 * 8 : null,
+        videoCodec: mediaInfo.videoCodec ?? null,
+        audioCodec: mediaInfo.audioCodec ?? null,
+      };
+    },
+
+    getLevels: () => [],
+
+    getCurrentLevel: () => -1,
+
+    isAutoLevel: () => true,
+
+    setLevel: () => {},
+
+    getLiveWindow: () => null,
+
+    getPlayingDate: () => null,
+
+    // Only read when the player is created; takes effect on the next reconnect
+    setBackBuffer: () => {},
+  };
+}
@@ -0,0 +1,86 @@
+import { probeManifest } from '../manifestProbe';
+import { createPlaybackEvents, readMediaStats, seekableLatency, seekableWindow, startPlayback } from './common';
+import type { PlaybackEngine } from './types';
+
+// The browser's own HLS stack (Safari, iOS). It exposes no levels or network
+// stats, so those stay empty.
+export function createNativeEngine(video: HTMLVideoElement): PlaybackEngine {
+  const events = createPlaybackEvents();
+  const probe = new AbortController();
+  let url = '';
+
+  const handleLoadedMetadata = () => {
+    events.setStatus('playing');
+    startPlayback(video);
+  };
+
+  const handleError = () => {
+    // The native player doesn't say why it failed, so ask the server
+    probeManifest(url, probe.signal)
+      .then((state) => {
+        if (state === 'live') throw new Error('Manifest is live');
+        events.setStatus(state === 'ended' ? 'ended' : 'offline');
+      })
+      .catch(() => {
+        if (probe.signal.aborted) return;
+        events.setStatus('error', { message: 'Failed to load stream' });
+      });
+  };
+
+  const handleEnded = () => events.setStatus('ended');
+  const handleWaiting = () => events.setStatus('buffering');
+  const handlePlaying = () => events.progress();
+
+  const listeners: [string, () => void][] = [
+    ['loadedmetadata', handleLoadedMetadata],
+    ['error', handleError],
+    ['ended', handleEnded],
+    ['waiting', handleWaiting],
+    ['playing', handlePlaying],
+  ];
+
+  return {
+    name: 'native',
+    capturesSegments: false,
+
+    load: (streamUrl) => {
+      url = streamUrl;
+      listeners.forEach(([type, listener]) => video.addEventListener(type, listener));
+      events.setStatus('loading');
+      video.src = streamUrl;
+    },
+
+    destroy: () => {
+      events.clear();
+      probe.abort();
+      listeners.forEach(([type, listener]) => video.removeEventListener(type, listener));
+      video.removeAttribute('src');
+      video.load();
+    },
+
+    subscribe: events.subscribe,
+
+    getStats: () => ({ ...readMediaStats(video), latency: seekableLatency(video) }),
+
+    getLevels: () => [],
+
+    getCurrentLevel: () => -1,
+
+    isAutoLevel: () => true,
+
+    setLevel: () => {},
+
+    getLiveWindow: () => seekableWindow(video),
+
+    getPlayingDate: () => {
+      const startDate = video.getStartDate?.();
+      if (startDate && !Number.isNaN(startDate.getTime())) {
+        return new Date(startDate.getTime() + video.currentTime * 1000);
+      }
+      return null;
+    },
+
+    // The browser manages its own buffer
+    setBackBuffer: () => {},
+  };
+}
@@ -0,0 +1,66 @@
+export type StreamStatus = 'idle' | 'loading' | 'playing' | 'error' | 'buffering' | 'offline' | 'ended';
+
+export type StreamProtocol = 'hls' | 'dash' | 'flv' | 'mpegts' | 'whep';
+
+export interface PlaybackError {
+  message: string;
+  // In-place recovery to try before tearing the engine down, when the engine has one
+  recover?: () => void;
+}
+
+export type PlaybackEvent =
+  | { type: 'status'; status: StreamStatus; error?: PlaybackError }
+  // Media is flowing again, so a reconnect cycle can start over
+  | { type: 'progress' }
+  | { type: 'levelSwitched'; level: number };
+
+export type PlaybackListener = (event: PlaybackEvent) => void;
+
+export interface PlaybackStats {
+  width: number;
+  height: number;
+  levelBitrate: number | null;
+  bandwidthEstimate: number | null;
+  // Null for engines without a media buffer to speak of (WebRTC)
+  bufferLength: number | null;
+  // Seconds behind the live edge; null when the engine has nothing to measure it by
+  latency: number | null;
+  droppedFrames: number;
+  decodedFrames: number;
+  videoCodec: string | null;
+  audioCodec: string | null;
+  segmentDuration: number | null;
+}
+
+export interface QualityLevel {
+  index: number;
+  width: number;
+  height: number;
+  bitrate: number;
+}
+
+// Seekable live range in media time, before the DVR window is applied
+export interface LiveWindow {
+  start: number;
+  end: number;
+  syncPosition: number;
+}
+
+export interface PlaybackEngine {
+  readonly name: string;
+  // Whether segment capture (raw archive, instant replay) sees this engine's downloads
+  readonly capturesSegments: boolean;
+  load: (url: string) => void;
+  destroy: () => void;
+  subscribe: (listener: PlaybackListener) => () => void;
+  getStats: () => PlaybackStats;
+  getLevels: () => QualityLevel[];
+  getCurrentLevel: () => number;
+  isAutoLevel: () => boolean;
+  // -1 hands control back to ABR
+  setLevel: (index: number) => void;
+  getLiveWindow: () => LiveWindow | null;
+  // Capture time of the frame on screen, from EXT-X-PROGRAM-DATE-TIME
+  getPlayingDate: () => Date | null;
+  setBackBuffer: (seconds: number) => void;
+}
@@ -0,0 +1,219 @@
+import { createPlaybackEvents, readMediaStats, startPlayback } from './common';
+import type { PlaybackEngine, PlaybackStats } from './types';
+
+export interface WhepEngineOptions {
+  headers: Record<string, string>;
+}
+
+const ICE_GATHERING_TIMEOUT = 2000;
+const STATS_INTERVAL = 1000;
+
+// Offers are sent in one go (no trickle ICE), so give gathering a moment to finish
+const waitForIceGathering = (pc: RTCPeerConnection) =>
+  new Promise<void>((resolve) => {
+    if (pc.iceGatheringState === 'complete') {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      pc.removeEventListener('icegatheringstatechange', handleChange);
+      resolve();
+    };
+    const handleChange = () => {
+      if (pc.iceGatheringState === 'complete') done();
+    };
+    const timer = setTimeout(done, ICE_GATHERING_TIMEOUT);
+    pc.addEventListener('icegatheringstatechange', handleChange);
+  });
+
+// 'video/H264' → 'H264'
+const codecName = (report: RTCStatsReport, codecId: string | undefined) => {
+  const codec = codecId ? report.get(codecId) : undefined;
+  return codec?.mimeType ? (codec.mimeType as string).split('/').pop() ?? null : null;
+};
+
+// WebRTC playback through a WHEP endpoint (e.g. MediaMTX's /{path}/whep).
+// There is no manifest, DVR window or rendition ladder; the server picks one
+// encoding and the browser plays it with a jitter buffer of a few frames.
+export function createWhepEngine(video: HTMLVideoElement, options: WhepEngineOptions): PlaybackEngine {
+  const events = createPlaybackEvents();
+  const pc = new RTCPeerConnection({ bundlePolicy: 'max-bundle' });
+  let destroyed = false;
+  let sessionUrl: string | null = null;
+  let statsTimer: ReturnType<typeof setInterval> | undefined;
+  let rtcStats: Partial<PlaybackStats> = {};
+  let lastBytes: { bytes: number; at: number } | null = null;
+
+  pc.addTransceiver('video', { direction: 'recvonly' });
+  pc.addTransceiver('audio', { direction: 'recvonly' });
+
+  pc.addEventListener('track', (event) => {
+    const stream = event.streams[0] ?? new MediaStream([event.track]);
+    if (video.srcObject !== stream) {
+      video.srcObject = stream;
+    }
+  });
+
+  pc.addEventListener('connectionstatechange', () => {
+    switch (pc.connectionState) {
+      case 'connected':
+        events.progress();
+        break;
+      case 'disconnected':
+        // Usually a brief network blip; ICE recovers on its own or moves to failed
+        events.setStatus('buffering');
+        break;
+      case 'failed':
+        events.setStatus('error', { message: 'WebRTC Connection Lost' });
+        break;
+    }
+  });
+
+  const readRtcStats = async () => {
+    const report = await pc.getStats();
+    const next: Partial<PlaybackStats> = {};
+    let jitterDelay: number | null = null;
+    let roundTrip: number | null = null;
+
+    report.forEach((entry) => {
+      if (entry.type === 'inbound-rtp' && entry.kind === 'video') {
+        if (entry.jitterBufferEmittedCount > 0) {
+          jitterDelay = entry.jitterBufferDelay / entry.jitterBufferEmittedCount;
+        }
+        next.videoCodec = codecName(report, entry.codecId);
+
+        const now: number = entry.timestamp;
+        if (lastBytes && now > lastBytes.at) {
+          next.levelBitrate = ((entry.bytesReceived - lastBytes.bytes) * 8) / ((now - lastBytes.at) / 1000);
+        }
+        lastBytes = { bytes: entry.bytesReceived, at: now };
+      } else if (entry.type === 'inbound-rtp' && entry.kind === 'audio') {
+        next.audioCodec = codecName(report, entry.codecId);
+      } else if (entry.type === 'candidate-pair' && entry.nominated && entry.state === 'succeeded') {
+        roundTrip = entry.currentRoundTripTime ?? null;
+        next.bandwidthEstimate = entry.availableIncomingBitrate ?? null;
+      }
+    });
+
+    // Network half of the round trip on top of the jitter buffer
+    if (jitterDelay !== null) {
+      next.latency = jitterDelay + (roundTrip ?? 0) / 2;
+    }
+    rtcStats = next;
+  };
+
+  const handleLoadedMetadata = () => {
+    events.setStatus('playing');
+    startPlayback(video);
+  };
+  const handleWaiting = () => events.setStatus('buffering');
+  const handlePlaying = () => events.progress();
+
+  const listeners: [string, () => void][] = [
+    ['loadedmetadata', handleLoadedMetadata],
+    ['waiting', handleWaiting],
+    ['playing', handlePlaying],
+  ];
+
+  // Free the session on the server rather than waiting for it to time out
+  const closeSession = () => {
+    if (!sessionUrl) return;
+    fetch(sessionUrl, { method: 'DELETE', headers: options.headers, keepalive: true })
+      .catch((err) => console.warn('Failed to close WHEP session:', err));
+    sessionUrl = null;
+  };
+
+  const negotiate = async (url: string) => {
+    const offer = await pc.createOffer();
+    await pc.setLocalDescription(offer);
+    await waitForIceGathering(pc);
+    if (destroyed) return;
+
+    // Not aborted on destroy: the server may already have opened a session,
+    // and only the response says where to delete it
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { ...options.headers, 'Content-Type': 'application/sdp' },
+      body: pc.localDescription!.sdp,
+    });
+    if (response.ok) {
+      const location = response.headers.get('Location');
+      sessionUrl = location ? new URL(location, url).toString() : null;
+    }
+    if (destroyed) {
+      closeSession();
+      return;
+    }
+
+    // Nothing published on this path yet
+    if (response.status === 404) {
+      events.setStatus('offline');
+      return;
+    }
+    if (!response.ok) {
+      events.setStatus('error', { message: `WHEP Error (${response.status})` });
+      return;
+    }
+
+    await pc.setRemoteDescription({ type: 'answer', sdp: await response.text() });
+  };
+
+  return {
+    name: 'whep',
+    capturesSegments: false,
+
+    load: (url) => {
+      listeners.forEach(([type, listener]) => video.addEventListener(type, listener));
+      events.setStatus('loading');
+      statsTimer = setInterval(() => {
+        readRtcStats().catch((err) => {
+          if (pc.connectionState !== 'closed') console.warn('WebRTC stats failed:', err);
+        });
+      }, STATS_INTERVAL);
+
+      negotiate(url).catch((err) => {
+        if (destroyed) return;
+        console.warn('WHEP negotiation failed:', err);
+        // fetch rejects with a TypeError for network and CORS failures alike
+        events.setStatus('error', {
+          message: err instanceof TypeError ? 'CORS or Connection Error' : 'WebRTC Negotiation Failed',
+        });
+      });
+    },
+
+    destroy: () => {
+      destroyed = true;
+      events.clear();
+      clearInterval(statsTimer);
+      listeners.forEach(([type, listener]) => video.removeEventListener(type, listener));
+      pc.close();
+      video.srcObject = null;
+      // An offer still in flight closes its session once the answer arrives
+      closeSession();
+    },
+
+    subscribe: events.subscribe,
+
+    getStats: () => ({
+      ...readMediaStats(video),
+      // The jitter buffer is all there is, and it is meant to stay short
+      bufferLength: null,
+      ...rtcStats,
+    }),
+
+    getLevels: () => [],
+
+    getCurrentLevel: () => -1,
+
+    isAutoLevel: () => true,
+
+    setLevel: () => {},
+
+    getLiveWindow: () => null,
+
+    getPlayingDate: () => null,
+
+    setBackBuffer: () => {},
+  };
+}
@@ -0,0 +1,27 @@
+import type { Preset, Stream, WallLayout } from './appState';
+import type { ServerProfile } from './serverProfile';
+import type { Wall } from './wall';
+
+export const createPreset = (name: string, streams: Stream[], layout: WallLayout): Preset => ({
+  id: `preset_${Date.now()}`,
+  name,
+  streams: streams.map(({ key, label, protocol, serverId }) => ({ key, label, protocol, serverId })),
+  layout,
+});
+
+// The preset as a wall to load or merge. Servers resolve against the current
+// profiles; a deleted one falls back to the first, as on the wall itself.
+export const presetWall = (preset: Preset, profiles: ServerProfile[]): Wall => ({
+  profiles,
+  streams: preset.streams.map((stream, index) => ({
+    ...stream,
+    id: `${preset.id}_${index}`,
+    serverId: profiles.some(p => p.id === stream.serverId) ? stream.serverId : profiles[0].id,
+  })),
+  layout: preset.layout,
+  channels: {},
+});
+
+// Keys one per line or comma-separated, duplicates dropped
+export const parsePresetKeys = (text: string) =>
+  [...new Set(text.split(/[\n,]/).map(key => key.trim()).filter(key => key.length > 0))];
@@ -0,0 +1,82 @@
+import type { CapturedSegment } from './segmentTap';
+import { createZip, type ZipEntry } from './zip';
+
+const isFragmentedMp4 = (segments: CapturedSegment[]) => segments.some(s => s.init !== null);
+
+export const segmentExtension = (segments: CapturedSegment[]) =>
+  isFragmentedMp4(segments) ? 'mp4' : 'ts';
+
+const segmentName = (segment: CapturedSegment, index: number, fmp4: boolean) =>
+  `segment_${String(index).padStart(5, '0')}${fmp4 ? '.m4s' : '.ts'}`;
+
+// Level switches and gaps in the media sequence have to be flagged or players
+// will try to splice the timelines together
+const isDiscontinuous = (prev: CapturedSegment, next: CapturedSegment) => {
+  if (prev.level !== next.level || prev.init !== next.init) return true;
+  if (next.part !== null || prev.part !== null) {
+    return next.sn !== prev.sn && next.sn !== prev.sn + 1;
+  }
+  return next.sn !== prev.sn + 1;
+};
+
+const buildEntries = (segments: CapturedSegment[]) => {
+  const fmp4 = isFragmentedMp4(segments);
+  const files: ZipEntry[] = [];
+  const targetDuration = Math.max(1, ...segments.map(s => Math.ceil(s.duration)));
+  const lines = [
+    '#EXTM3U',
+    `#EXT-X-VERSION:${fmp4 ? 7 : 3}`,
+    `#EXT-X-TARGETDURATION:${targetDuration}`,
+    `#EXT-X-MEDIA-SEQUENCE:${segments[0]?.sn ?? 0}`,
+    '#EXT-X-PLAYLIST-TYPE:VOD',
+  ];
+
+  const initNames = new Map<ArrayBuffer, string>();
+  segments.forEach((segment, index) => {
+    const prev = segments[index - 1];
+    if (prev && isDiscontinuous(prev, segment)) {
+      lines.push('#EXT-X-DISCONTINUITY');
+    }
+    if (segment.init && (!prev || prev.init !== segment.init)) {
+      let initName = initNames.get(segment.init);
+      if (!initName) {
+        initName = `init_${initNames.size}.mp4`;
+        initNames.set(segment.init, initName);
+        files.push({ name: initName, data: segment.init, modified: new Date(segment.capturedAt) });
+      }
+      lines.push(`#EXT-X-MAP:URI="${initName}"`);
+    }
+    if (segment.programDateTime !== null) {
+      lines.push(`#EXT-X-PROGRAM-DATE-TIME:${new Date(segment.programDateTime).toISOString()}`);
+    }
+    const name = segmentName(segment, index, fmp4);
+    lines.push(`#EXTINF:${segment.duration.toFixed(3)},`, name);
+    files.push({ name, data: segment.data, modified: new Date(segment.capturedAt) });
+  });
+
+  lines.push('#EXT-X-ENDLIST', '');
+  return { files, playlist: lines.join('\n') };
+};
+
+// Original segments plus a local playlist that references them
+export const buildSegmentZip = (segments: CapturedSegment[]) => {
+  const { files, playlist } = buildEntries(segments);
+  return createZip([
+    { name: 'index.m3u8', data: new TextEncoder().encode(playlist) },
+    ...files,
+  ]);
+};
+
+// Byte-for-byte concatenation. TS segments are self-contained; fMP4 segments
+// get their init segment written ahead of them whenever it changes.
+export const concatSegments = (segments: CapturedSegment[]) => {
+  const parts: ArrayBuffer[] = [];
+  segments.forEach((segment, index) => {
+    const prev = segments[index - 1];
+    if (segment.init && (!prev || prev.init !== segment.init)) {
+      parts.push(segment.init);
+    }
+    parts.push(segment.data);
+  });
+  return new Blob(parts, { type: isFragmentedMp4(segments) ? 'video/mp4' : 'video/mp2t' });
+};
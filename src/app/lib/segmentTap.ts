@@ -0,0 +1,121 @@
+import Hls, {
+  type FragmentLoaderConstructor,
+  type FragmentLoaderContext,
+  type LoaderCallbacks,
+  type LoaderConfiguration,
+  type LoaderContext,
+} from 'hls.js';
+
+export interface CapturedSegment {
+  sn: number;
+  part: number | null;
+  level: number;
+  duration: number;
+  // Epoch ms from EXT-X-PROGRAM-DATE-TIME, when the playlist carries it
+  programDateTime: number | null;
+  url: string;
+  data: ArrayBuffer;
+  init: ArrayBuffer | null;
+  capturedAt: number;
+}
+
+type SegmentListener = (segment: CapturedSegment) => void;
+
+export interface SegmentTap {
+  loader: FragmentLoaderConstructor;
+  attach: (hls: Hls) => void;
+  subscribe: (listener: SegmentListener) => () => void;
+}
+
+// Keeps an untouched copy of every media segment hls.js downloads. The copy has
+// to be taken inside the loader: by the time FRAG_LOADED fires the payload has
+// usually been transferred to the transmux worker, and init segments never
+// emit FRAG_LOADED at all.
+export function createSegmentTap(): SegmentTap {
+  const listeners = new Set<SegmentListener>();
+  const payloads = new WeakMap<object, ArrayBuffer>();
+  // Latest init segment per level, kept whether or not anyone is listening:
+  // it is only loaded once, and a capture started later still needs it
+  const inits = new Map<number, { url: string; data: ArrayBuffer }>();
+
+  const BaseLoader = Hls.DefaultConfig.loader;
+
+  class CaptureLoader extends BaseLoader {
+    load(context: LoaderContext, config: LoaderConfiguration, callbacks: LoaderCallbacks<LoaderContext>) {
+      const { frag, part } = context as FragmentLoaderContext;
+      const key = part ?? frag;
+
+      const isInit = !part && frag.sn === 'initSegment';
+
+      const keep = (data: unknown) => {
+        if (isInit || listeners.size === 0 || !(data instanceof ArrayBuffer) || data.byteLength === 0) return;
+        if (!payloads.has(key)) payloads.set(key, data.slice(0));
+      };
+
+      const keepInit = (data: unknown) => {
+        if (frag.type === 'main' && data instanceof ArrayBuffer && data.byteLength > 0) {
+          inits.set(frag.level, { url: frag.url, data: data.slice(0) });
+        }
+      };
+
+      const wrapped: LoaderCallbacks<LoaderContext> = {
+        ...callbacks,
+        onSuccess: (response, stats, ctx, networkDetails) => {
+          if (isInit) {
+            keepInit(response.data);
+          } else {
+            keep(response.data);
+          }
+          callbacks.onSuccess(response, stats, ctx, networkDetails);
+        },
+      };
+
+      const onProgress = callbacks.onProgress;
+      if (onProgress && !context.progressData) {
+        wrapped.onProgress = (stats, ctx, data, networkDetails) => {
+          keep(data);
+          onProgress(stats, ctx, data, networkDetails);
+        };
+      }
+
+      super.load(context, config, wrapped);
+    }
+  }
+
+  const attach = (hls: Hls) => {
+    hls.on(Hls.Events.FRAG_LOADED, (_event, { frag, part }) => {
+      if (frag.type !== 'main' || frag.sn === 'initSegment') return;
+
+      const key = part ?? frag;
+      const data = payloads.get(key);
+      payloads.delete(key);
+      if (!data || listeners.size === 0) return;
+
+      const { programDateTime, initSegment } = frag;
+      const init = initSegment ? inits.get(frag.level) : undefined;
+      const segment: CapturedSegment = {
+        sn: frag.sn,
+        part: part ? part.index : null,
+        level: frag.level,
+        duration: part ? part.duration : frag.duration,
+        programDateTime: programDateTime !== null && part
+          ? programDateTime + (part.start - frag.start) * 1000
+          : programDateTime,
+        url: part ? part.url : frag.url,
+        data,
+        init: init && init.url === initSegment?.url ? init.data : null,
+        capturedAt: Date.now(),
+      };
+      listeners.forEach(listener => listener(segment));
+    });
+  };
+
+  const subscribe = (listener: SegmentListener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { loader: CaptureLoader as FragmentLoaderConstructor, attach, subscribe };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { authHeaders, DEFAULT_SERVER_PROFILE, inferServerProfile, matchStreamUrl, type ServerProfile } from './serverProfile';
+
+describe('authHeaders', () => {
+  it('encodes basic credentials as UTF-8', () => {
+    const { Authorization } = authHeaders({ type: 'basic', username: 'jürgen', password: 'пароль🔑' });
+    const bytes = Uint8Array.from(atob(Authorization.replace('Basic ', '')), c => c.charCodeAt(0));
+    expect(new TextDecoder().decode(bytes)).toBe('jürgen:пароль🔑');
+  });
+
+  it('sends nothing without a username', () => {
+    expect(authHeaders({ type: 'basic', username: '', password: 'x' })).toEqual({});
+  });
+});
+
+describe('inferServerProfile', () => {
+  const infer = (url: string) => {
+    const match = inferServerProfile(url, 'inferred');
+    return match && { key: match.key, protocol: match.protocol, app: match.profile.app };
+  };
+
+  it('takes the key from the file name', () => {
+    expect(infer('https://cdn.example.com/live/drone1.m3u8')).toEqual({ key: 'drone1', protocol: 'hls', app: 'live' });
+  });
+
+  it('takes the key from the directory of a generic playlist name', () => {
+    expect(infer('http://host:8888/drone1/index.m3u8')).toEqual({ key: 'drone1', protocol: 'hls', app: '' });
+    expect(infer('https://host/live/drone2/playlist.m3u8')).toEqual({ key: 'drone2', protocol: 'hls', app: 'live' });
+  });
+
+  it('handles streams at the root of the server', () => {
+    expect(infer('http://host/drone1.m3u8')).toEqual({ key: 'drone1', protocol: 'hls', app: '' });
+  });
+
+  it('produces a profile that matches the other streams on the server', () => {
+    const match = inferServerProfile('http://host:8888/drone1/index.m3u8', 'inferred')!;
+    expect(matchStreamUrl('http://host:8888/drone2/index.m3u8', [match.profile])?.key).toBe('drone2');
+  });
+});
+
+describe('matchStreamUrl', () => {
+  const profile: ServerProfile = { ...DEFAULT_SERVER_PROFILE, id: 'edge', scheme: 'http', host: 'edge', port: '8080', app: 'live' };
+
+  it('recovers the key and protocol from any of the templates', () => {
+    expect(matchStreamUrl('http://edge:8080/live/drone1.m3u8', [profile])).toEqual({ profile, protocol: 'hls', key: 'drone1' });
+    expect(matchStreamUrl('http://edge:8080/live/drone1.flv', [profile])?.protocol).toBe('flv');
+    expect(matchStreamUrl('http://edge:8889/drone1/whep', [profile])?.protocol).toBe('whep');
+  });
+
+  it('ignores query and hash, and decodes the key', () => {
+    expect(matchStreamUrl('http://edge:8080/live/cam%201.m3u8?token=x#t=1', [profile])?.key).toBe('cam 1');
+  });
+
+  it('returns null for URLs the server does not produce', () => {
+    expect(matchStreamUrl('http://edge:8080/other/drone1.m3u8', [profile])).toBeNull();
+    expect(matchStreamUrl('https://edge:8080/live/drone1.m3u8', [profile])).toBeNull();
+    expect(matchStreamUrl('http://edge:8080/live/a/b.m3u8', [profile])).toBeNull();
+  });
+});
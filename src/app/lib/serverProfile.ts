@@ -0,0 +1,229 @@
+import type { StreamProtocol } from './playback/types';
+import { buildStreamUrl, formatStreamUrl, validateUrlTemplate, DEFAULT_URL_TEMPLATES, type ServerVariables, type UrlScheme } from './urlTemplate';
+
+export type ServerAuth =
+  | { type: 'none' }
+  | { type: 'bearer'; token: string }
+  | { type: 'basic'; username: string; password: string }
+  // Token appended to every URL, for servers (and Safari's native player) that can't take headers
+  | { type: 'query'; param: string; token: string };
+
+export type ServerAuthType = ServerAuth['type'];
+
+export interface ServerProfile {
+  id: string;
+  name: string;
+  scheme: UrlScheme;
+  host: string;
+  port: string;
+  app: string;
+  auth: ServerAuth;
+  urlTemplates: Record<StreamProtocol, string>;
+}
+
+export const DEFAULT_SERVER_ID = 'default';
+
+export const DEFAULT_SERVER_PROFILE: ServerProfile = {
+  id: DEFAULT_SERVER_ID,
+  name: 'Primary',
+  scheme: 'https',
+  host: 'apidecodgames.site',
+  port: '',
+  app: 'hls',
+  auth: { type: 'none' },
+  urlTemplates: DEFAULT_URL_TEMPLATES,
+};
+
+export const AUTH_LABELS: Record<ServerAuthType, string> = {
+  none: 'None',
+  bearer: 'Bearer token',
+  basic: 'Basic (user / password)',
+  query: 'Query token',
+};
+
+export const emptyAuth = (type: ServerAuthType): ServerAuth => {
+  switch (type) {
+    case 'bearer':
+      return { type, token: '' };
+    case 'basic':
+      return { type, username: '', password: '' };
+    case 'query':
+      return { type, param: 'token', token: '' };
+    default:
+      return { type: 'none' };
+  }
+};
+
+// btoa only takes Latin-1, so the credentials go through UTF-8 first (RFC 7617)
+const basicCredentials = (username: string, password: string) => {
+  let binary = '';
+  new TextEncoder().encode(`${username}:${password}`).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+// Headers every request to this server carries; empty for query-token and no auth
+export const authHeaders = (auth: ServerAuth): Record<string, string> => {
+  switch (auth.type) {
+    case 'bearer':
+      return auth.token ? { Authorization: `Bearer ${auth.token}` } : {};
+    case 'basic':
+      return auth.username ? { Authorization: `Basic ${basicCredentials(auth.username, auth.password)}` } : {};
+    default:
+      return {};
+  }
+};
+
+const withQueryAuth = (url: string, auth: ServerAuth) => {
+  if (auth.type !== 'query' || !auth.param || !auth.token) return url;
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}${encodeURIComponent(auth.param)}=${encodeURIComponent(auth.token)}`;
+};
+
+export const serverVariables = ({ scheme, host, port, app }: ServerProfile): ServerVariables => ({ scheme, host, port, app });
+
+export const profileStreamUrl = (profile: ServerProfile, protocol: StreamProtocol, key: string) =>
+  withQueryAuth(buildStreamUrl(profile.urlTemplates[protocol], serverVariables(profile), key), profile.auth);
+
+export interface StreamUrlMatch {
+  profile: ServerProfile;
+  protocol: StreamProtocol;
+  key: string;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const decodeKey = (key: string) => {
+  try {
+    return decodeURIComponent(key);
+  } catch {
+    return key;
+  }
+};
+
+// The inverse of profileStreamUrl: the first profile and protocol whose
+// template produces this URL, and the key it was built from. Query strings
+// (e.g. auth tokens) are ignored.
+export const matchStreamUrl = (url: string, profiles: ServerProfile[]): StreamUrlMatch | null => {
+  const bare = url.split(/[?#]/)[0];
+  for (const profile of profiles) {
+    for (const protocol of Object.keys(profile.urlTemplates) as StreamProtocol[]) {
+      const format = formatStreamUrl(profile.urlTemplates[protocol], serverVariables(profile));
+      const pattern = escapeRegExp(format).split(escapeRegExp('{key}')).join('([^/?#]+)');
+      const match = new RegExp(`^${pattern}$`).exec(bare);
+      if (match) {
+        return { profile, protocol, key: decodeKey(match[1]) };
+      }
+    }
+  }
+  return null;
+};
+
+// Playlist names servers give every stream, with the key one directory up:
+// MediaMTX's /{key}/index.m3u8, Wowza's /{app}/{key}/playlist.m3u8
+const GENERIC_FILE_NAMES = ['index', 'playlist', 'manifest', 'master'];
+
+const EXTENSION_PROTOCOLS: Record<string, StreamProtocol> = {
+  m3u8: 'hls',
+  mpd: 'dash',
+  flv: 'flv',
+  ts: 'mpegts',
+};
+
+// An empty app would leave an empty path segment, so app-less servers get
+// templates without one
+const withoutApp = (templates: Record<StreamProtocol, string>) => {
+  const result = { ...templates };
+  (Object.keys(result) as StreamProtocol[]).forEach((protocol) => {
+    result[protocol] = result[protocol].replace('/{app}', '');
+  });
+  return result;
+};
+
+// For a URL no known server produces: a new profile with the default
+// templates (or a nested one for generic playlist names), provided it
+// reproduces the URL
+export const inferServerProfile = (url: string, id: string): StreamUrlMatch | null => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+
+  const segments = parsed.pathname.split('/').filter(segment => segment.length > 0);
+  const file = segments[segments.length - 1] ?? '';
+  const dot = file.lastIndexOf('.');
+  const protocol = dot > 0 ? EXTENSION_PROTOCOLS[file.slice(dot + 1).toLowerCase()] : undefined;
+  const isGeneric = protocol && segments.length > 1 && GENERIC_FILE_NAMES.includes(file.slice(0, dot).toLowerCase());
+
+  const appSegments = segments.slice(0, isGeneric ? -2 : -1);
+  const templates = isGeneric
+    ? { ...DEFAULT_URL_TEMPLATES, [protocol]: `{scheme}://{host}:{port}/{app}/{key}/${file}` }
+    : DEFAULT_URL_TEMPLATES;
+  const candidate: ServerProfile = {
+    ...DEFAULT_SERVER_PROFILE,
+    id,
+    name: parsed.host,
+    scheme: parsed.protocol === 'http:' ? 'http' : 'https',
+    host: parsed.hostname,
+    port: parsed.port,
+    app: appSegments.join('/'),
+    urlTemplates: appSegments.length > 0 ? templates : withoutApp(templates),
+  };
+  return matchStreamUrl(url, [candidate]);
+};
+
+export const createServerProfile = (name: string): ServerProfile => ({
+  ...DEFAULT_SERVER_PROFILE,
+  id: `server_${Date.now()}`,
+  name,
+  host: '',
+  auth: { type: 'none' },
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const str = (value: unknown, fallback = '') => (typeof value === 'string' ? value : fallback);
+
+const normalizeAuth = (raw: unknown): ServerAuth => {
+  if (!isRecord(raw)) return { type: 'none' };
+  switch (raw.type) {
+    case 'bearer':
+      return { type: 'bearer', token: str(raw.token) };
+    case 'basic':
+      return { type: 'basic', username: str(raw.username), password: str(raw.password) };
+    case 'query':
+      return { type: 'query', param: str(raw.param, 'token'), token: str(raw.token) };
+    default:
+      return { type: 'none' };
+  }
+};
+
+// Rebuilds a profile from untrusted JSON (storage, links, imports). Missing
+// fields take the defaults; null when it isn't a profile at all.
+export const normalizeServerProfile = (raw: unknown): ServerProfile | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !raw.id) return null;
+
+  const templates = isRecord(raw.urlTemplates) ? raw.urlTemplates : {};
+  const urlTemplates = { ...DEFAULT_URL_TEMPLATES };
+  (Object.keys(urlTemplates) as StreamProtocol[]).forEach((protocol) => {
+    // An invalid template would only produce broken URLs, so it gets the default
+    const template = str(templates[protocol]);
+    if (template && validateUrlTemplate(template).length === 0) urlTemplates[protocol] = template;
+  });
+
+  return {
+    id: raw.id,
+    name: str(raw.name, 'Server'),
+    scheme: raw.scheme === 'http' ? 'http' : 'https',
+    host: str(raw.host),
+    port: str(raw.port),
+    app: str(raw.app),
+    auth: normalizeAuth(raw.auth),
+    urlTemplates,
+  };
+};
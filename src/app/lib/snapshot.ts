@@ -0,0 +1,66 @@
+import { format } from 'date-fns';
+import { sourceRectForRegion, type ZoomRegion } from './zoom';
+
+export type SnapshotFormat = 'png' | 'jpeg';
+
+export interface SnapshotOptions {
+  format: SnapshotFormat;
+  burnIn: boolean;
+  note: string;
+}
+
+export const DEFAULT_SNAPSHOT_OPTIONS: SnapshotOptions = { format: 'png', burnIn: true, note: '' };
+
+export interface BurnIn {
+  streamKey: string;
+  timestamp: Date;
+  note: string;
+}
+
+const FOOTER_RATIO = 0.045;
+const MIN_FOOTER_HEIGHT = 24;
+
+export const formatBurnInTime = (date: Date) => format(date, 'yyyy-MM-dd HH:mm:ss.SSS xxx');
+
+// Draws synchronously so a whole wall can be grabbed in the same tick and
+// encoded afterwards
+export const drawSnapshot = (video: HTMLVideoElement, region: ZoomRegion, burnIn: BurnIn | null) => {
+  const zoomed = region.scale > 1 && video.clientWidth > 0 && video.clientHeight > 0;
+  const source = zoomed
+    ? sourceRectForRegion(video, region)
+    : { x: 0, y: 0, width: video.videoWidth, height: video.videoHeight };
+
+  const width = Math.round(source.width);
+  const height = Math.round(source.height);
+  const footerHeight = burnIn ? Math.max(MIN_FOOTER_HEIGHT, Math.round(height * FOOTER_RATIO)) : 0;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height + footerHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  ctx.drawImage(video, source.x, source.y, source.width, source.height, 0, 0, width, height);
+
+  if (burnIn) {
+    ctx.fillStyle = '#0f172a';
+    ctx.fillRect(0, height, width, footerHeight);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `${Math.round(footerHeight * 0.5)}px ui-monospace, monospace`;
+    ctx.textBaseline = 'middle';
+    const parts = [burnIn.streamKey, formatBurnInTime(burnIn.timestamp)];
+    if (burnIn.note.trim()) parts.push(burnIn.note.trim());
+    ctx.fillText(parts.join('  ·  '), footerHeight * 0.4, height + footerHeight / 2, width - footerHeight * 0.8);
+  }
+
+  return canvas;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, snapshotFormat: SnapshotFormat) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Snapshot encoding failed'))),
+      `image/${snapshotFormat}`,
+      0.92,
+    );
+  });
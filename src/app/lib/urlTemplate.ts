@@ -0,0 +1,74 @@
+import type { StreamProtocol } from './playback/types';
+
+export type UrlScheme = 'http' | 'https';
+
+export interface UrlVariables {
+  scheme: UrlScheme;
+  host: string;
+  port: string;
+  app: string;
+  key: string;
+}
+
+export type ServerVariables = Omit<UrlVariables, 'key'>;
+
+export const TEMPLATE_VARIABLES: (keyof UrlVariables)[] = ['scheme', 'host', 'port', 'app', 'key'];
+
+export const DEFAULT_URL_TEMPLATES: Record<StreamProtocol, string> = {
+  hls: '{scheme}://{host}:{port}/{app}/{key}.m3u8',
+  dash: '{scheme}://{host}:{port}/{app}/{key}.mpd',
+  flv: '{scheme}://{host}:{port}/{app}/{key}.flv',
+  mpegts: '{scheme}://{host}:{port}/{app}/{key}.ts',
+  whep: '{scheme}://{host}:8889/{key}/whep',
+};
+
+const PLACEHOLDER = /\{([^{}]*)\}/g;
+
+// Fills in the placeholders. An empty port drops its leading colon, so one
+// template serves both default-port and explicit-port servers.
+export const renderUrlTemplate = (template: string, variables: UrlVariables) =>
+  template
+    .replace(/:\{port\}/g, variables.port ? `:${variables.port}` : '')
+    .replace(PLACEHOLDER, (match, name: string) =>
+      (TEMPLATE_VARIABLES as string[]).includes(name) ? variables[name as keyof UrlVariables] : match);
+
+// Playback URL for one stream key
+export const buildStreamUrl = (template: string, server: ServerVariables, key: string) =>
+  renderUrlTemplate(template, { ...server, key: encodeURIComponent(key) });
+
+// The URL shape shown to users, with the key left as a placeholder
+export const formatStreamUrl = (template: string, server: ServerVariables) =>
+  renderUrlTemplate(template, { ...server, key: '{key}' });
+
+// Human-readable problems with a template, empty when it is usable
+export const validateUrlTemplate = (template: string): string[] => {
+  const errors: string[] = [];
+  if (!template.trim()) {
+    return ['Template is empty'];
+  }
+
+  const names = [...template.matchAll(PLACEHOLDER)].map(m => m[1]);
+  const unknown = names.filter(name => !(TEMPLATE_VARIABLES as string[]).includes(name));
+  if (unknown.length > 0) {
+    errors.push(`Unknown placeholder${unknown.length > 1 ? 's' : ''}: ${unknown.map(n => `{${n}}`).join(', ')}`);
+  }
+  if (!names.includes('key')) {
+    errors.push('Template must contain {key}, or every stream gets the same URL');
+  }
+  if (/[{}]/.test(template.replace(PLACEHOLDER, ''))) {
+    errors.push('Unbalanced braces');
+  }
+
+  // Render with stand-in values so only the template's own shape is checked
+  const sample = renderUrlTemplate(template, { scheme: 'https', host: 'example.com', port: '8080', app: 'live', key: 'key' });
+  try {
+    const url = new URL(sample);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      errors.push('URL must start with http:// or https:// (use {scheme})');
+    }
+  } catch {
+    errors.push('Template does not produce a valid URL');
+  }
+
+  return errors;
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_STREAMS, type Stream } from './appState';
+import { DEFAULT_SERVER_PROFILE, type ServerProfile } from './serverProfile';
+import { mergeWalls, withoutCredentials, type Wall } from './wall';
+
+const local: ServerProfile = {
+  ...DEFAULT_SERVER_PROFILE,
+  id: 'local',
+  auth: { type: 'bearer', token: 'mine' },
+};
+
+const stream = (key: string, serverId = 'local'): Stream => ({ id: key, key, serverId });
+
+const current: Wall = {
+  profiles: [local],
+  streams: [stream('a'), stream('b')],
+  layout: { columns: 2 },
+  channels: { a: { volume: 0.3, muted: false } },
+};
+
+describe('mergeWalls', () => {
+  it('appends only new keys and reuses a server this browser knows', () => {
+    const incoming: Wall = {
+      profiles: [{ ...withoutCredentials(local), id: 'theirs' }],
+      streams: [stream('b', 'theirs'), stream('c', 'theirs')],
+      layout: { columns: 4 },
+      channels: { b: { volume: 1, muted: true }, c: { volume: 0.8, muted: false } },
+    };
+    const result = mergeWalls(current, incoming, 'merge');
+    expect(result.wall.streams.map(s => [s.key, s.serverId])).toEqual([['a', 'local'], ['b', 'local'], ['c', 'local']]);
+    expect(result.wall.profiles).toEqual([local]);
+    expect(result.newProfiles).toEqual([]);
+    expect(result.wall.layout).toEqual({ columns: 2 });
+    expect(result.wall.channels).toEqual({ a: { volume: 0.3, muted: false }, c: { volume: 0.8, muted: false } });
+  });
+
+  it('adds unknown servers, renaming ids that are already taken', () => {
+    const other: ServerProfile = { ...DEFAULT_SERVER_PROFILE, id: 'local', host: 'other.example.com' };
+    const result = mergeWalls(current, { ...current, profiles: [other], streams: [stream('z')] }, 'merge');
+    expect(result.newProfiles).toHaveLength(1);
+    expect(result.newProfiles[0].id).toMatch(/^server_/);
+    expect(result.wall.streams.at(-1)?.serverId).toBe(result.newProfiles[0].id);
+  });
+
+  it('replaces streams, layout and mixer', () => {
+    const incoming: Wall = { profiles: [], streams: [stream('x')], layout: { columns: 'auto' }, channels: {} };
+    const result = mergeWalls(current, incoming, 'replace');
+    expect(result.wall.streams.map(s => s.key)).toEqual(['x']);
+    expect(result.wall.layout).toEqual({ columns: 'auto' });
+    expect(result.wall.channels).toEqual({});
+  });
+
+  it('drops what does not fit on the wall', () => {
+    const keys = Array.from({ length: MAX_STREAMS }, (_, i) => `k${i}`);
+    const result = mergeWalls(current, { ...current, streams: keys.map(key => stream(key)) }, 'merge');
+    expect(result.wall.streams).toHaveLength(MAX_STREAMS);
+    expect(result.dropped).toEqual(keys.slice(MAX_STREAMS - 2));
+  });
+});
@@ -0,0 +1,85 @@
+import type { MixerChannel } from '../context/AudioMixerContext';
+import { MAX_STREAMS, type Stream, type WallLayout } from './appState';
+import { emptyAuth, type ServerProfile } from './serverProfile';
+
+// What a wall is made of when it leaves this browser (links, files, presets)
+export interface Wall {
+  profiles: ServerProfile[];
+  streams: Stream[];
+  layout: WallLayout;
+  channels: Record<string, MixerChannel>;
+}
+
+export type WallMergeMode = 'replace' | 'merge';
+
+export interface WallMergeResult {
+  wall: Wall;
+  added: Stream[];
+  // Keys that didn't fit on the wall
+  dropped: string[];
+  // Profiles created for servers this browser didn't know yet
+  newProfiles: ServerProfile[];
+}
+
+// Keeps the auth type so the recipient knows what to fill in, but never the secret
+export const withoutCredentials = (profile: ServerProfile): ServerProfile => ({
+  ...profile,
+  auth: profile.auth.type === 'query' ? { type: 'query', param: profile.auth.param, token: '' } : emptyAuth(profile.auth.type),
+});
+
+const sameServer = (a: ServerProfile, b: ServerProfile) =>
+  a.scheme === b.scheme
+  && a.host === b.host
+  && a.port === b.port
+  && a.app === b.app
+  && JSON.stringify(a.urlTemplates) === JSON.stringify(b.urlTemplates);
+
+// Folds an incoming wall into the current one. Servers already known here are
+// reused so local credentials keep working; the rest become new profiles.
+// Replace swaps the streams, layout and mixer; merge appends new keys only.
+export const mergeWalls = (current: Wall, incoming: Wall, mode: WallMergeMode): WallMergeResult => {
+  const profiles = [...current.profiles];
+  const newProfiles: ServerProfile[] = [];
+  const serverIds = new Map<string, string>();
+
+  incoming.profiles.forEach((profile, index) => {
+    const known = profiles.find(p => sameServer(p, profile));
+    if (known) {
+      serverIds.set(profile.id, known.id);
+      return;
+    }
+    const id = profiles.some(p => p.id === profile.id) ? `server_${Date.now()}_${index}` : profile.id;
+    const added = { ...profile, id };
+    profiles.push(added);
+    newProfiles.push(added);
+    serverIds.set(profile.id, id);
+  });
+
+  const kept = mode === 'replace' ? [] : current.streams;
+  const existingKeys = new Set(kept.map(s => s.key));
+  const candidates = incoming.streams
+    .filter(s => !existingKeys.has(s.key))
+    .map((s, index) => ({
+      ...s,
+      id: `${Date.now()}_${index}`,
+      serverId: serverIds.get(s.serverId) ?? profiles[0].id,
+    }));
+  const added = candidates.slice(0, Math.max(0, MAX_STREAMS - kept.length));
+  const addedKeys = new Set(added.map(s => s.key));
+
+  const incomingChannels = Object.fromEntries(
+    Object.entries(incoming.channels).filter(([key]) => addedKeys.has(key)),
+  );
+
+  return {
+    wall: {
+      profiles,
+      streams: [...kept, ...added],
+      layout: mode === 'replace' ? incoming.layout : current.layout,
+      channels: mode === 'replace' ? incomingChannels : { ...current.channels, ...incomingChannels },
+    },
+    added,
+    dropped: candidates.slice(added.length).map(s => s.key),
+    newProfiles,
+  };
+};
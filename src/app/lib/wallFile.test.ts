@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SERVER_PROFILE, type ServerProfile } from './serverProfile';
+import { parseWallJson, parseWallM3u } from './wallFile';
+
+const exportOf = (fields: Record<string, unknown>) =>
+  JSON.stringify({ format: 'decod-live-wall', version: 1, ...fields });
+
+describe('parseWallJson', () => {
+  it('refuses files that are not a wall export', () => {
+    expect(() => parseWallJson('{')).toThrow(/not valid JSON/);
+    expect(() => parseWallJson('null')).toThrow(/not a wall export/);
+    expect(() => parseWallJson('[1, 2]')).toThrow(/not a wall export/);
+    expect(() => parseWallJson(JSON.stringify({ format: 'other' }))).toThrow(/not a wall export/);
+    expect(() => parseWallJson(exportOf({ version: '1' }))).toThrow(/no valid version/);
+    expect(() => parseWallJson(exportOf({ version: 2 }))).toThrow(/version 2/);
+  });
+
+  it('skips invalid streams and drops unknown protocols', () => {
+    const { wall, warnings } = parseWallJson(exportOf({
+      streams: [
+        { key: 'a', protocol: 'toString', serverId: 'default' },
+        { key: 'a', serverId: 'default' },
+        { protocol: 'hls' },
+        { key: 'b', serverId: 'missing' },
+      ],
+    }));
+    expect(wall.streams.map(s => [s.key, s.protocol])).toEqual([['a', undefined], ['b', undefined]]);
+    expect(warnings).toEqual([
+      '2 streams skipped: invalid, duplicate or over the wall limit',
+      'Missing server for 1 stream; the first server is used instead',
+    ]);
+  });
+});
+
+describe('parseWallM3u', () => {
+  const known: ServerProfile = { ...DEFAULT_SERVER_PROFILE, id: 'known', host: 'known.example.com', port: '8443' };
+
+  it('maps URLs to known servers first, then to inferred ones', () => {
+    const { wall, warnings } = parseWallM3u([
+      '#EXTM3U',
+      '#EXTINF:-1,Gate',
+      'https://known.example.com:8443/hls/gate.mpd',
+      'http://mediamtx:8888/drone1/index.m3u8',
+      'http://mediamtx:8888/drone2/index.m3u8?token=x',
+      'http://mediamtx:8888/drone1/index.m3u8',
+      'rtmp://mediamtx/live/drone3',
+    ].join('\n'), [known]);
+
+    expect(wall.streams.map(s => [s.key, s.protocol, s.label])).toEqual([
+      ['gate', 'dash', 'Gate'],
+      ['drone1', 'hls', undefined],
+      ['drone2', 'hls', undefined],
+    ]);
+    expect(wall.profiles).toHaveLength(2);
+    expect(wall.profiles[0]).toBe(known);
+    expect(wall.profiles[1]).toMatchObject({ host: 'mediamtx', port: '8888', app: '' });
+    expect(new Set(wall.streams.slice(1).map(s => s.serverId))).toEqual(new Set([wall.profiles[1].id]));
+    expect(warnings).toEqual([
+      'Line 5: query string dropped; set auth on the server profile instead',
+      'Line 6: key drone1 is already in the playlist',
+      "Line 7: rtmp://mediamtx/live/drone3 doesn't fit any URL template",
+    ]);
+  });
+
+  it('refuses a playlist without stream URLs', () => {
+    expect(() => parseWallM3u('#EXTM3U\n', [known])).toThrow(/no stream URLs/);
+  });
+});
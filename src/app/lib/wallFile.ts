@@ -0,0 +1,121 @@
+import { normalizeAppState, type Stream } from './appState';
+import { parseM3u } from './m3u';
+import { inferServerProfile, matchStreamUrl, type ServerProfile } from './serverProfile';
+import { withoutCredentials, type Wall } from './wall';
+
+const EXPORT_FORMAT = 'decod-live-wall';
+const EXPORT_VERSION = 1;
+
+export interface WallImport {
+  wall: Wall;
+  // What was skipped or changed on the way in, for the preview
+  warnings: string[];
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Credentials stay behind, as with wall links
+export const createWallExport = (wall: Wall) =>
+  new Blob([JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profiles: wall.profiles.map(withoutCredentials),
+    streams: wall.streams,
+    layout: wall.layout,
+    channels: wall.channels,
+  }, null, 2)], { type: 'application/json' });
+
+export const parseWallJson = (text: string): WallImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (typeof data !== 'object' || data === null || !('format' in data) || data.format !== EXPORT_FORMAT) {
+    throw new Error('The file is not a wall export');
+  }
+
+  const { version, profiles, streams, layout, channels } = data as Record<string, unknown>;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('The export has no valid version');
+  }
+  if (version > EXPORT_VERSION) {
+    throw new Error(`The export is version ${version}; this app reads up to version ${EXPORT_VERSION}`);
+  }
+
+  const state = normalizeAppState({ profiles, streams, layout, mixer: { channels } });
+  const warnings: string[] = [];
+  const skippedStreams = (Array.isArray(streams) ? streams.length : 0) - state.streams.length;
+  if (skippedStreams > 0) {
+    warnings.push(`${plural(skippedStreams, 'stream')} skipped: invalid, duplicate or over the wall limit`);
+  }
+  const profileIds = new Set(state.profiles.map(p => p.id));
+  const orphans = state.streams.filter(s => !profileIds.has(s.serverId)).length;
+  if (orphans > 0) {
+    warnings.push(`Missing server for ${plural(orphans, 'stream')}; the first server is used instead`);
+  }
+
+  return {
+    wall: { profiles: state.profiles, streams: state.streams, layout: state.layout, channels: state.mixer.channels },
+    warnings,
+  };
+};
+
+// Maps each playlist URL to a stream on a known server, or on a new profile
+// inferred from the URL when none fits
+export const parseWallM3u = (text: string, knownProfiles: ServerProfile[]): WallImport => {
+  const entries = parseM3u(text);
+  if (entries.length === 0) {
+    throw new Error('The playlist has no stream URLs');
+  }
+
+  const inferred: ServerProfile[] = [];
+  const streams: Stream[] = [];
+  const warnings: string[] = [];
+  const importedAt = Date.now();
+
+  entries.forEach((entry, index) => {
+    const match = matchStreamUrl(entry.url, [...knownProfiles, ...inferred])
+      ?? inferServerProfile(entry.url, `server_${importedAt}_${index}`);
+    if (!match) {
+      warnings.push(`Line ${entry.line}: ${entry.url} doesn't fit any URL template`);
+      return;
+    }
+    if (!knownProfiles.includes(match.profile) && !inferred.includes(match.profile)) {
+      inferred.push(match.profile);
+    }
+    if (streams.some(s => s.key === match.key)) {
+      warnings.push(`Line ${entry.line}: key ${match.key} is already in the playlist`);
+      return;
+    }
+    if (entry.url.includes('?')) {
+      warnings.push(`Line ${entry.line}: query string dropped; set auth on the server profile instead`);
+    }
+    streams.push({
+      id: `${importedAt}_${index}`,
+      key: match.key,
+      label: entry.title,
+      protocol: match.protocol,
+      serverId: match.profile.id,
+    });
+  });
+
+  const serverIds = new Set(streams.map(s => s.serverId));
+  return {
+    wall: {
+      profiles: [...knownProfiles, ...inferred].filter(p => serverIds.has(p.id)),
+      streams,
+      layout: { columns: 'auto' },
+      channels: {},
+    },
+    warnings,
+  };
+};
+
+export const readWallFile = async (file: File, knownProfiles: ServerProfile[]): Promise<WallImport> => {
+  const text = await file.text();
+  const isPlaylist = /\.m3u8?$/i.test(file.name) || text.trimStart().startsWith('#EXTM3U');
+  return isPlaylist ? parseWallM3u(text, knownProfiles) : parseWallJson(text);
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SERVER_PROFILE, type ServerProfile } from './serverProfile';
+import type { Wall } from './wall';
+import { decodeWall, encodeWall } from './wallLink';
+
+// Payloads here are ASCII, so plain base64 with the url-safe alphabet will do
+const encode = (payload: unknown) =>
+  btoa(JSON.stringify(payload)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const profile: ServerProfile = {
+  ...DEFAULT_SERVER_PROFILE,
+  id: 'edge',
+  name: 'Edge',
+  auth: { type: 'basic', username: 'ops', password: 'secret' },
+};
+
+const wall: Wall = {
+  profiles: [profile],
+  streams: [
+    { id: '1', key: 'drone1', serverId: 'edge', protocol: 'dash', isPinned: true },
+    { id: '2', key: 'kamera-ü', label: 'Überblick', serverId: 'edge' },
+  ],
+  layout: { columns: 2 },
+  channels: { drone1: { volume: 0.5, muted: false }, gone: { volume: 1, muted: false } },
+};
+
+describe('decodeWall', () => {
+  it('round-trips a wall without its credentials', () => {
+    const decoded = decodeWall(encodeWall(wall))!;
+    expect(decoded.streams.map(s => [s.key, s.label, s.protocol, s.isPinned])).toEqual([
+      ['drone1', undefined, 'dash', true],
+      ['kamera-ü', 'Überblick', undefined, undefined],
+    ]);
+    expect(decoded.profiles[0].auth).toEqual({ type: 'basic', username: '', password: '' });
+    expect(decoded.layout).toEqual({ columns: 2 });
+    expect(decoded.channels).toEqual({ drone1: { volume: 0.5, muted: false } });
+  });
+
+  it('rejects a link with a protocol this build does not know', () => {
+    expect(decodeWall(encode({ v: 1, streams: [{ key: 'a', protocol: 'toString' }] }))).toBeNull();
+    expect(decodeWall(encode({ v: 1, streams: [{ key: 'a', protocol: 'rtmp' }] }))).toBeNull();
+  });
+
+  it('accepts streams without a protocol', () => {
+    expect(decodeWall(encode({ v: 1, streams: [{ key: 'a' }] }))?.streams[0].key).toBe('a');
+  });
+
+  it('rejects damaged payloads and other versions', () => {
+    expect(decodeWall('not base64!')).toBeNull();
+    expect(decodeWall(encode('just a string'))).toBeNull();
+    expect(decodeWall(encode(null))).toBeNull();
+    expect(decodeWall(encode({ v: 2, streams: [{ key: 'a' }] }))).toBeNull();
+  });
+
+  it('falls back to defaults for fields of the wrong shape', () => {
+    const decoded = decodeWall(encode({ v: 1, profiles: 'x', streams: [{ key: 'a' }, 42], layout: { columns: 9 } }))!;
+    expect(decoded.streams.map(s => s.key)).toEqual(['a']);
+    expect(decoded.profiles).toEqual([DEFAULT_SERVER_PROFILE]);
+    expect(decoded.layout).toEqual({ columns: 'auto' });
+  });
+});
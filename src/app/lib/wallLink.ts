@@ -0,0 +1,88 @@
+import { isProtocol, normalizeAppState } from './appState';
+import type { StreamProtocol } from './playback/types';
+import type { ServerProfile } from './serverProfile';
+import { DEFAULT_URL_TEMPLATES } from './urlTemplate';
+import { withoutCredentials, type Wall } from './wall';
+
+const LINK_PARAM = 'wall';
+const LINK_VERSION = 1;
+
+const toBase64Url = (text: string) => {
+  let binary = '';
+  new TextEncoder().encode(text).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+// Templates left at their defaults are dropped to keep links short; decoding fills them back in
+const compactProfile = (profile: ServerProfile) => {
+  const { urlTemplates, ...rest } = withoutCredentials(profile);
+  const custom = (Object.keys(urlTemplates) as StreamProtocol[])
+    .filter(protocol => urlTemplates[protocol] !== DEFAULT_URL_TEMPLATES[protocol])
+    .map(protocol => [protocol, urlTemplates[protocol]]);
+  return custom.length > 0 ? { ...rest, urlTemplates: Object.fromEntries(custom) } : rest;
+};
+
+export const encodeWall = (wall: Wall) => {
+  const serverIds = new Set(wall.streams.map(s => s.serverId));
+  const keys = new Set(wall.streams.map(s => s.key));
+  return toBase64Url(JSON.stringify({
+    v: LINK_VERSION,
+    profiles: wall.profiles.filter(p => serverIds.has(p.id)).map(compactProfile),
+    streams: wall.streams.map(({ key, label, protocol, serverId, isPinned }) => ({ key, label, protocol, serverId, isPinned })),
+    layout: wall.layout,
+    channels: Object.fromEntries(Object.entries(wall.channels).filter(([key]) => keys.has(key))),
+  }));
+};
+
+const hasUnknownProtocol = (streams: unknown) =>
+  Array.isArray(streams) && streams.some(stream =>
+    typeof stream === 'object' && stream !== null && 'protocol' in stream
+      && stream.protocol != null && !isProtocol(stream.protocol));
+
+// Null when the payload is damaged, from an unknown link version or names a
+// protocol this build doesn't play
+export const decodeWall = (encoded: string): Wall | null => {
+  try {
+    const payload: unknown = JSON.parse(fromBase64Url(encoded));
+    if (typeof payload !== 'object' || payload === null || !('v' in payload) || payload.v !== LINK_VERSION) {
+      return null;
+    }
+    const { profiles, streams, layout, channels } = payload as Record<string, unknown>;
+    if (hasUnknownProtocol(streams)) return null;
+    const state = normalizeAppState({ profiles, streams, layout, mixer: { channels } });
+    return { profiles: state.profiles, streams: state.streams, layout: state.layout, channels: state.mixer.channels };
+  } catch {
+    return null;
+  }
+};
+
+// The wall goes in the hash so it never reaches a server log
+export const wallLinkUrl = (wall: Wall) => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(LINK_PARAM);
+  url.hash = `${LINK_PARAM}=${encodeWall(wall)}`;
+  return url.toString();
+};
+
+// The encoded wall in the current address, from the hash or (for links typed
+// by other tools) the query string
+export const wallLinkParam = () =>
+  new URLSearchParams(window.location.hash.slice(1)).get(LINK_PARAM)
+    ?? new URLSearchParams(window.location.search).get(LINK_PARAM);
+
+// Takes the wall out of the address bar once it has been handled, so a reload
+// doesn't offer it again
+export const clearWallLink = () => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(LINK_PARAM);
+  url.hash = '';
+  window.history.replaceState(null, '', url.toString());
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { createZip, ZIP_MAX_ENTRIES } from './zip';
+
+const readZip = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    entries.push({ name, crc, data: new TextDecoder().decode(bytes.subarray(dataStart, dataStart + size)) });
+    offset += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe('createZip', () => {
+  it('stores entries with their names, sizes and checksums', async () => {
+    const entries = await readZip(createZip([
+      { name: 'check.txt', data: new TextEncoder().encode('123456789') },
+      { name: 'ü/empty.bin', data: new ArrayBuffer(0) },
+    ]));
+    expect(entries).toEqual([
+      { name: 'check.txt', crc: 0xcbf43926, data: '123456789' },
+      { name: 'ü/empty.bin', crc: 0, data: '' },
+    ]);
+  });
+
+  it('refuses more entries than a ZIP without ZIP64 can list', () => {
+    const entries = Array.from({ length: ZIP_MAX_ENTRIES + 1 }, (_, i) => ({ name: `${i}`, data: new ArrayBuffer(0) }));
+    expect(() => createZip(entries)).toThrow(/Too many files/);
+  });
+});
@@ -0,0 +1,51 @@
+// Visible part of a tile, in 0..1 coordinates of the tile's video box
+export interface ZoomRegion {
+  scale: number;
+  left: number;
+  top: number;
+}
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 8;
+
+export const NO_ZOOM: ZoomRegion = { scale: 1, left: 0, top: 0 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const clampRegion = ({ scale, left, top }: ZoomRegion): ZoomRegion => {
+  const s = clamp(scale, MIN_ZOOM, MAX_ZOOM);
+  const span = 1 - 1 / s;
+  return { scale: s, left: clamp(left, 0, span), top: clamp(top, 0, span) };
+};
+
+// Zoom so the point under (x, y) stays put
+export const zoomAt = (region: ZoomRegion, scale: number, x: number, y: number): ZoomRegion => {
+  const pointX = region.left + x / region.scale;
+  const pointY = region.top + y / region.scale;
+  const next = clamp(scale, MIN_ZOOM, MAX_ZOOM);
+  return clampRegion({ scale: next, left: pointX - x / next, top: pointY - y / next });
+};
+
+export const panBy = (region: ZoomRegion, dx: number, dy: number): ZoomRegion =>
+  clampRegion({ ...region, left: region.left - dx / region.scale, top: region.top - dy / region.scale });
+
+export const zoomTransform = ({ scale, left, top }: ZoomRegion) =>
+  `scale(${scale}) translate(${-left * 100}%, ${-top * 100}%)`;
+
+// Frame rectangle (in video pixels) that ends up inside the region, taking the
+// tile's object-cover crop into account
+export const sourceRectForRegion = (video: HTMLVideoElement, region: ZoomRegion) => {
+  const { videoWidth, videoHeight, clientWidth, clientHeight } = video;
+  const cover = Math.max(clientWidth / videoWidth, clientHeight / videoHeight);
+  const visibleWidth = clientWidth / cover;
+  const visibleHeight = clientHeight / cover;
+  const offsetX = (videoWidth - visibleWidth) / 2;
+  const offsetY = (videoHeight - visibleHeight) / 2;
+
+  return {
+    x: offsetX + region.left * visibleWidth,
+    y: offsetY + region.top * visibleHeight,
+    width: visibleWidth / region.scale,
+    height: visibleHeight / region.scale,
+  };
+};
@@ -1,7 +1,18 @@
 
   import { createRoot } from "react-dom/client";
   import App from "./app/App.tsx";
+  import { AudioMixerProvider } from "./app/context/AudioMixerContext.tsx";
+  import { SnapshotProvider } from "./app/context/SnapshotContext.tsx";
+  import { loadAppState } from "./app/lib/appState.ts";
   import "./styles/index.css";
 
-  createRoot(document.getElementById("root")!).render(<App />);
+  const savedState = loadAppState();
+
+  createRoot(document.getElementById("root")!).render(
+    <AudioMixerProvider initialState={savedState.mixer}>
+      <SnapshotProvider initialOptions={savedState.snapshot}>
+        <App initialState={savedState} />
+      </SnapshotProvider>
+    </AudioMixerProvider>,
+  );
   
\ No newline at end of file
@@ -28,3 +28,15 @@ declare module '*.svg' {
   const value: string;
   export default value;
 }
+
+// Media element capture isn't in the DOM lib yet
+interface HTMLMediaElement {
+  captureStream?(): MediaStream;
+  // Safari: EXT-X-PROGRAM-DATE-TIME of media time 0 for native HLS
+  getStartDate?(): Date;
+}
+
+// Output device selection for Web Audio (Chromium)
+interface AudioContext {
+  setSinkId?(sinkId: string): Promise<void>;
+}